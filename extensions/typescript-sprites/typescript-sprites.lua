@@ -6,6 +6,56 @@ local function formatTable(table)
   return str .. "}"
 end
 
+local function formatArray(array)
+  local str = "[ "
+  for _, v in ipairs(array) do
+    str = str .. v .. ", "
+  end
+  return str .. "]"
+end
+
+local function formatString(str)
+  return '"' .. str:gsub('"', '\\"') .. '"'
+end
+
+-- frames are laid out in a horizontal strip in the exported texture, so each
+-- frame of a slice is offset by the width of the sprite
+local function formatFrames(spr, bounds)
+  local frames = {}
+  for i, frame in ipairs(spr.frames) do
+    table.insert(frames, formatTable{
+      x=bounds.x + (i - 1) * spr.width,
+      y=bounds.y,
+      w=bounds.width,
+      h=bounds.height,
+      duration=math.floor(frame.duration * 1000 + 0.5),
+    })
+  end
+  return formatArray(frames)
+end
+
+local function formatTags(spr)
+  local tags = {}
+  for _, tag in ipairs(spr.tags) do
+    local props = {
+      from=tag.fromFrame.frameNumber - 1,
+      to=tag.toFrame.frameNumber - 1,
+    }
+
+    if tag.aniDir == AniDir.PING_PONG then
+      props.mode = formatString("pingpong")
+    elseif tag.aniDir == AniDir.PING_PONG_REVERSE then
+      props.mode = formatString("pingpong")
+      props.reverse = "true"
+    elseif tag.aniDir == AniDir.REVERSE then
+      props.reverse = "true"
+    end
+
+    tags[formatString(tag.name)] = formatTable(props)
+  end
+  return formatTable(tags)
+end
+
 local function formatVariableName(str)
   local name = str
   local start = name:sub(1, 1)
@@ -56,6 +106,11 @@ local function exportSpriteSheet(spr)
       }
     end
 
+    if #spr.frames > 1 then
+      props.frames = formatFrames(spr, slice.bounds)
+      props.tags = formatTags(spr)
+    end
+
     local line = string.format(
       'export const %s = %s;',
       formatVariableName(slice.name),
@@ -75,6 +130,7 @@ local function exportSpriteSheet(spr)
 
   app.command.ExportSpriteSheet{
     ui=false,
+    type=SpriteSheetType.HORIZONTAL,
     textureFilename=texturePath,
   }
 end
@@ -0,0 +1,82 @@
+// Builds the library, then runs a headless game in plain Node (without a
+// DOM) and prints what happened as JSON.
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { build } from "vite";
+
+let outDir = mkdtempSync(join(tmpdir(), "games-"));
+
+try {
+  await build({
+    configFile: false,
+    logLevel: "silent",
+    build: {
+      outDir,
+      lib: {
+        entry: resolve(new URL(".", import.meta.url).pathname, "../index.ts"),
+        formats: ["es"],
+        fileName: () => "index.mjs",
+      },
+    },
+  });
+
+  let games = await import(pathToFileURL(join(outDir, "index.mjs")).href);
+  let calls = [];
+
+  // Contexts record the methods that are called on them
+  let context = new Proxy({}, {
+    get(target, key) {
+      if (key in target) return target[key];
+      return () => {
+        calls.push(key);
+        if (key === "getImageData") return { data: [] };
+      };
+    },
+  });
+
+  let createCanvas = (width, height) => ({ width, height, getContext: () => context });
+
+  let createImage = () => {
+    let img = {
+      width: 128,
+      height: 128,
+      complete: false,
+      set src(_url) {
+        setTimeout(() => {
+          img.complete = true;
+          img.onload();
+        });
+      },
+    };
+
+    return img;
+  };
+
+  let frames = 0;
+
+  await games.start({
+    headless: true,
+    createCanvas,
+    createImage,
+    width: 50,
+    height: 60,
+    loop() {
+      frames++;
+      games.fillRect(0, 0, 10, 10);
+    },
+  });
+
+  games.step();
+  games.step();
+
+  console.log(JSON.stringify({
+    frames,
+    width: games.canvas.width,
+    height: games.canvas.height,
+    fillRects: calls.filter(call => call === "fillRect").length,
+  }));
+} finally {
+  rmSync(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,119 @@
+import { expect, test, vi } from "vitest";
+import { loadBMFont, parseBMFont } from "./bmfont";
+
+let text = `info face="Tiny Sans" size=8 bold=0 italic=0 charset="" unicode=1 padding=0,0,0,0 spacing=1,1
+common lineHeight=10 base=8 scaleW=64 scaleH=64 pages=2 packed=0
+page id=0 file="tiny_0.png"
+page id=1 file="tiny_1.png"
+chars count=3
+char id=32   x=0    y=0    width=0    height=0    xoffset=0    yoffset=0    xadvance=3    page=0  chnl=15
+char id=65   x=1    y=2    width=5    height=7    xoffset=0    yoffset=1    xadvance=6    page=0  chnl=15
+char id=1046 x=10   y=20   width=7    height=7    xoffset=-1   yoffset=1    xadvance=7    page=1  chnl=15
+kernings count=1
+kerning first=65  second=1046 amount=-2
+`;
+
+let xml = `<?xml version="1.0"?>
+<font>
+  <info face="Tiny Sans" size="8" bold="0" italic="0" charset="" unicode="1" padding="0,0,0,0" spacing="1,1"/>
+  <common lineHeight="10" base="8" scaleW="64" scaleH="64" pages="2" packed="0"/>
+  <pages>
+    <page id="0" file="tiny_0.png" />
+    <page id="1" file="tiny_1.png" />
+  </pages>
+  <chars count="3">
+    <char id="32" x="0" y="0" width="0" height="0" xoffset="0" yoffset="0" xadvance="3" page="0" chnl="15" />
+    <char id="65" x="1" y="2" width="5" height="7" xoffset="0" yoffset="1" xadvance="6" page="0" chnl="15" />
+    <char id="1046" x="10" y="20" width="7" height="7" xoffset="-1" yoffset="1" xadvance="7" page="1" chnl="15" />
+  </chars>
+  <kernings count="1">
+    <kerning first="65" second="1046" amount="-2" />
+  </kernings>
+</font>`;
+
+/**
+ * Builds the binary (version 3) format for the same font as above, with any
+ * extra chars.
+ */
+function binary(extraChars: number[][] = []): ArrayBuffer {
+  let bytes: number[] = [66, 77, 70, 3];
+  let u8 = (n: number) => bytes.push(n & 0xFF);
+  let u16 = (n: number) => { u8(n); u8(n >> 8); };
+  let u32 = (n: number) => { u16(n); u16(n >> 16); };
+  let block = (type: number, size: number) => { u8(type); u32(size); };
+
+  block(2, 15);
+  u16(10); u16(8); u16(64); u16(64); u16(2); u8(0); u8(0); u8(0); u8(0); u8(0);
+
+  let names = "tiny_0.png\0tiny_1.png\0";
+  block(3, names.length);
+  for (let char of names) u8(char.charCodeAt(0));
+
+  let chars = [
+    [32, 0, 0, 0, 0, 0, 0, 3, 0],
+    [65, 1, 2, 5, 7, 0, 1, 6, 0],
+    [1046, 10, 20, 7, 7, -1, 1, 7, 1],
+    ...extraChars,
+  ];
+
+  block(4, chars.length * 20);
+  for (let [id, x, y, w, h, ox, oy, advance, page] of chars) {
+    u32(id); u16(x); u16(y); u16(w); u16(h); u16(ox); u16(oy); u16(advance); u8(page); u8(15);
+  }
+
+  block(5, 10);
+  u32(65); u32(1046); u16(-2);
+
+  return new Uint8Array(bytes).buffer;
+}
+
+test("parsing bmfont text descriptors", () => {
+  let font = parseBMFont(text, { "tiny_0.png": "/fonts/tiny_0.png" });
+  expect(font.url).toBe("/fonts/tiny_0.png");
+  expect(font.pages).toEqual(["tiny_1.png"]);
+  expect(font.lineHeight).toBe(10);
+  expect(font.glyphWidth).toBe(3);
+  expect(font.chars!["A"]).toEqual({ x: 1, y: 2, w: 5, h: 7, offsetX: 0, offsetY: 1, advance: 6, page: 0 });
+  expect(font.chars!["Ж"]).toEqual({ x: 10, y: 20, w: 7, h: 7, offsetX: -1, offsetY: 1, advance: 7, page: 1 });
+  expect(font.kerning).toEqual({ "AЖ": -2 });
+});
+
+test("parsing bmfont xml descriptors", () => {
+  expect(parseBMFont(xml)).toEqual(parseBMFont(text));
+});
+
+test("parsing bmfont binary descriptors", () => {
+  expect(parseBMFont(binary())).toEqual(parseBMFont(text));
+
+  // Text descriptors can be passed as buffers too
+  expect(parseBMFont(new TextEncoder().encode(text).buffer)).toEqual(parseBMFont(text));
+});
+
+test("parsing bmfont descriptors with an invalid character glyph", () => {
+  let withInvalid = text
+    .replace("chars count=3", "chars count=4\nchar id=-1 x=20 y=0 width=5 height=7 xoffset=0 yoffset=1 xadvance=6 page=0 chnl=15")
+    .replace("kernings count=1", "kernings count=2\nkerning first=-1 second=65 amount=1");
+
+  expect(parseBMFont(withInvalid)).toEqual(parseBMFont(text));
+
+  // Binary files store the id as an unsigned integer
+  let invalid = [0xFFFFFFFF, 20, 0, 5, 7, 0, 1, 6, 0];
+  expect(parseBMFont(binary([invalid]))).toEqual(parseBMFont(text));
+});
+
+test("loading bmfonts without a DOM", async () => {
+  let { document } = globalThis;
+  vi.stubGlobal("fetch", async () => ({ ok: true, arrayBuffer: async () => new TextEncoder().encode(text).buffer }));
+  vi.stubGlobal("document", undefined);
+
+  try {
+    let font = await loadBMFont("fonts/tiny.fnt");
+    expect(font.url).toBe("fonts/tiny_0.png");
+    expect(font.pages).toEqual(["fonts/tiny_1.png"]);
+
+    font = await loadBMFont("tiny.fnt", "https://example.com/fonts/");
+    expect(font.url).toBe("https://example.com/fonts/tiny_0.png");
+  } finally {
+    vi.stubGlobal("document", document);
+  }
+});
@@ -0,0 +1,257 @@
+import type { Font, FontChar } from ".";
+import { assert } from "./utils";
+
+/**
+ * The parts of a BMFont descriptor that are needed to render text. The
+ * text, XML and binary formats are all parsed into this shape.
+ */
+interface BMFontDescriptor {
+  lineHeight: number;
+  base: number;
+  pages: string[];
+  chars: {
+    id: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    xoffset: number;
+    yoffset: number;
+    xadvance: number;
+    page: number;
+  }[];
+  kernings: {
+    first: number;
+    second: number;
+    amount: number;
+  }[];
+}
+
+/**
+ * Parses a font descriptor from [BMFont](https://www.angelcode.com/products/bmfont/)
+ * (or a compatible tool) into a font that can be used to write text. The
+ * text, XML and binary (version 3) formats are supported.
+ *
+ * @param data The contents of the `.fnt` file. Binary descriptors must be
+ * passed as an `ArrayBuffer`.
+ * @param images Urls for the font's page images, by the file names in the
+ * descriptor. File names without a url are used as urls.
+ */
+export function parseBMFont(
+  data: string | ArrayBuffer,
+  images: Record<string, string> = {},
+): Font {
+  let descriptor: BMFontDescriptor;
+
+  if (typeof data !== "string") {
+    let bytes = new Uint8Array(data);
+    let binary = bytes[0] === 66 && bytes[1] === 77 && bytes[2] === 70; // "BMF"
+    descriptor = binary ? parseBinary(data) : parseText(new TextDecoder().decode(bytes));
+  } else {
+    descriptor = parseText(data);
+  }
+
+  let [url, ...pages] = descriptor.pages.map(file => images[file] ?? file);
+  assert(url, "BMFont descriptor has no pages");
+
+  let chars: Record<string, FontChar> = {};
+  let kerning: Record<string, number> = {};
+
+  for (let char of descriptor.chars) {
+    if (!isCodePoint(char.id)) continue;
+    chars[String.fromCodePoint(char.id)] = {
+      x: char.x,
+      y: char.y,
+      w: char.width,
+      h: char.height,
+      offsetX: char.xoffset,
+      offsetY: char.yoffset,
+      advance: char.xadvance,
+      page: char.page,
+    };
+  }
+
+  for (let { first, second, amount } of descriptor.kernings) {
+    if (!isCodePoint(first) || !isCodePoint(second)) continue;
+    kerning[String.fromCodePoint(first) + String.fromCodePoint(second)] = amount;
+  }
+
+  return {
+    url,
+    pages,
+    glyphWidth: chars[" "]?.advance ?? 0,
+    glyphHeight: descriptor.base,
+    lineHeight: descriptor.lineHeight,
+    glyphWidthsTable: {},
+    chars,
+    kerning,
+  };
+}
+
+/**
+ * Checks whether a char id from a descriptor is a valid code point. BMFont
+ * writes the glyph for invalid characters with an id of -1 (or 0xFFFFFFFF
+ * in binary files), which doesn't map to a character.
+ */
+function isCodePoint(id: number): boolean {
+  return Number.isInteger(id) && id >= 0 && id <= 0x10FFFF;
+}
+
+/**
+ * Fetches and parses a BMFont descriptor. The font's page images are
+ * resolved relative to the descriptor's url.
+ *
+ * Fonts still need to be preloaded with {@link preload} before they are
+ * used.
+ *
+ * @param url The url of the `.fnt` file.
+ * @param baseUrl The url that a relative `url` is resolved against
+ * (defaults to the document's base url). Without a DOM, relative page urls
+ * are joined to the descriptor's path instead.
+ */
+export async function loadBMFont(url: string, baseUrl?: string): Promise<Font> {
+  let response = await fetch(url);
+  assert(response.ok, `Could not load BMFont: ${url}`);
+  let data = await response.arrayBuffer();
+  let base = baseUrl ?? (typeof document === "undefined" ? undefined : document.baseURI);
+
+  let font = parseBMFont(data);
+  let resolve = (file: string) => resolvePage(file, url, base);
+  font.url = resolve(font.url);
+  font.pages = font.pages?.map(resolve);
+  return font;
+}
+
+/**
+ * Resolves the url of a page image relative to the descriptor's url.
+ */
+function resolvePage(file: string, url: string, base: string | undefined): string {
+  if (base != null || /^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return new URL(file, new URL(url, base)).href;
+  }
+
+  return url.slice(0, url.lastIndexOf("/") + 1) + file;
+}
+
+/**
+ * Parses the text and XML formats. Both formats are made from tags with
+ * `key=value` attributes, so they are parsed in the same way.
+ *
+ * ```
+ * char id=65 x=0 y=0 width=5 height=6
+ * <char id="65" x="0" y="0" width="5" height="6" />
+ * ```
+ */
+function parseText(text: string): BMFontDescriptor {
+  let descriptor: BMFontDescriptor = {
+    lineHeight: 0,
+    base: 0,
+    pages: [],
+    chars: [],
+    kernings: [],
+  };
+
+  let xml = text.trimStart().startsWith("<");
+  let tags = xml ? /<(\w+)\s([^>]*)>/g : /^(\w+)\s(.*)$/gm;
+  let attributes = /(\w+)=("[^"]*"|\S+)/g;
+
+  for (let [, tag, body] of text.matchAll(tags)) {
+    let attrs: Record<string, string> = {};
+    let nums: Record<string, number> = {};
+
+    for (let [, key, value] of body.matchAll(attributes)) {
+      value = value.replace(/^"|"$/g, "");
+      attrs[key] = value;
+      nums[key] = Number(value);
+    }
+
+    if (tag === "common") {
+      descriptor.lineHeight = nums.lineHeight;
+      descriptor.base = nums.base;
+    } else if (tag === "page") {
+      descriptor.pages[nums.id] = attrs.file;
+    } else if (tag === "char") {
+      descriptor.chars.push({
+        id: nums.id,
+        x: nums.x,
+        y: nums.y,
+        width: nums.width,
+        height: nums.height,
+        xoffset: nums.xoffset,
+        yoffset: nums.yoffset,
+        xadvance: nums.xadvance,
+        page: nums.page || 0,
+      });
+    } else if (tag === "kerning") {
+      descriptor.kernings.push({
+        first: nums.first,
+        second: nums.second,
+        amount: nums.amount,
+      });
+    }
+  }
+
+  return descriptor;
+}
+
+/**
+ * Parses the binary format. The file starts with "BMF" and a version byte,
+ * followed by blocks that each start with a type byte and a 32 bit size.
+ */
+function parseBinary(buffer: ArrayBuffer): BMFontDescriptor {
+  let view = new DataView(buffer);
+  let version = view.getUint8(3);
+  assert(version === 3, `Unsupported BMFont version: ${version}`);
+
+  let descriptor: BMFontDescriptor = {
+    lineHeight: 0,
+    base: 0,
+    pages: [],
+    chars: [],
+    kernings: [],
+  };
+
+  let offset = 4;
+
+  while (offset < buffer.byteLength) {
+    let type = view.getUint8(offset);
+    let size = view.getUint32(offset + 1, true);
+    let start = offset + 5;
+    let end = start + size;
+
+    if (type === 2) {
+      descriptor.lineHeight = view.getUint16(start, true);
+      descriptor.base = view.getUint16(start + 2, true);
+    } else if (type === 3) {
+      // Null terminated page names
+      let names = new TextDecoder().decode(new Uint8Array(buffer, start, size));
+      descriptor.pages = names.split("\0").filter(name => name);
+    } else if (type === 4) {
+      for (let i = start; i < end; i += 20) {
+        descriptor.chars.push({
+          id: view.getUint32(i, true),
+          x: view.getUint16(i + 4, true),
+          y: view.getUint16(i + 6, true),
+          width: view.getUint16(i + 8, true),
+          height: view.getUint16(i + 10, true),
+          xoffset: view.getInt16(i + 12, true),
+          yoffset: view.getInt16(i + 14, true),
+          xadvance: view.getInt16(i + 16, true),
+          page: view.getUint8(i + 18),
+        });
+      }
+    } else if (type === 5) {
+      for (let i = start; i < end; i += 10) {
+        descriptor.kernings.push({
+          first: view.getUint32(i, true),
+          second: view.getUint32(i + 4, true),
+          amount: view.getInt16(i + 8, true),
+        });
+      }
+    }
+
+    offset = end;
+  }
+
+  return descriptor;
+}
@@ -0,0 +1,66 @@
+import { expect, test } from "vitest";
+import { createSpatialHash, overlapCircleRect, overlapCircles, overlapRects, pointInCircle, pointInRect, spatialInsert, spatialMove, spatialQuery, spatialRemove, sweepRect } from "./collision";
+
+test("overlaps", () => {
+  let rect = { x: 0, y: 0, w: 10, h: 10 };
+  expect(overlapRects(rect, { x: 5, y: 5, w: 10, h: 10 })).toBe(true);
+  expect(overlapRects(rect, { x: 10, y: 0, w: 10, h: 10 })).toBe(false);
+
+  expect(overlapCircles({ x: 0, y: 0, r: 5 }, { x: 8, y: 0, r: 5 })).toBe(true);
+  expect(overlapCircles({ x: 0, y: 0, r: 5 }, { x: 10, y: 0, r: 5 })).toBe(false);
+
+  expect(overlapCircleRect({ x: 15, y: 5, r: 6 }, rect)).toBe(true);
+  // Close to the corner on both axes, but too far away diagonally
+  expect(overlapCircleRect({ x: 14, y: 14, r: 5 }, rect)).toBe(false);
+
+  expect(pointInRect(0, 9, rect)).toBe(true);
+  expect(pointInRect(10, 5, rect)).toBe(false);
+  expect(pointInCircle(3, 4, { x: 0, y: 0, r: 5.1 })).toBe(true);
+  expect(pointInCircle(3, 4, { x: 0, y: 0, r: 5 })).toBe(false);
+});
+
+test("swept rectangles", () => {
+  let wall = { x: 20, y: 0, w: 10, h: 10 };
+  let rect = { x: 0, y: 0, w: 10, h: 10 };
+
+  expect(sweepRect(rect, 20, 0, wall)).toEqual({ time: 0.5, normal: { x: -1, y: 0 } });
+  expect(sweepRect(rect, 5, 0, wall)).toBe(undefined);
+  expect(sweepRect(rect, -20, 0, wall)).toBe(undefined);
+
+  // Fast movements can't tunnel through the wall
+  expect(sweepRect(rect, 100, 0, wall)).toEqual({ time: 0.1, normal: { x: -1, y: 0 } });
+
+  // Hitting the top of the wall
+  let above = { x: 20, y: -20, w: 10, h: 10 };
+  expect(sweepRect(above, 0, 20, wall)).toEqual({ time: 0.5, normal: { x: 0, y: -1 } });
+
+  // Sliding along the wall's edge doesn't touch it
+  expect(sweepRect({ x: 10, y: -20, w: 10, h: 10 }, 0, 40, wall)).toBe(undefined);
+
+  expect(sweepRect({ x: 25, y: 5, w: 2, h: 2 }, 10, 0, wall)).toEqual({ time: 0, normal: { x: 0, y: 0 } });
+});
+
+test("spatial hash", () => {
+  let hash = createSpatialHash<string>(10);
+  spatialInsert(hash, "a", { x: 0, y: 0, w: 5, h: 5 });
+  spatialInsert(hash, "b", { x: 8, y: 8, w: 5, h: 5 });
+  spatialInsert(hash, "c", { x: 100, y: 100, w: 5, h: 5 });
+
+  // Items are stored in every cell that they touch
+  expect(Array.from(hash.cells.keys())).toEqual(["0,0", "1,0", "0,1", "1,1", "10,10"]);
+
+  expect(spatialQuery(hash, { x: 0, y: 0, w: 10, h: 10 })).toEqual(["a", "b"]);
+  expect(spatialQuery(hash, { x: 6, y: 0, w: 4, h: 4 })).toEqual([]);
+  expect(spatialQuery(hash, { x: -100, y: -100, w: 1000, h: 1000 }).sort()).toEqual(["a", "b", "c"]);
+
+  spatialMove(hash, "c", { x: 2, y: 2, w: 5, h: 5 });
+  expect(spatialQuery(hash, { x: 0, y: 0, w: 4, h: 4 })).toEqual(["a", "c"]);
+  expect(hash.cells.has("10,10")).toBe(false);
+
+  spatialRemove(hash, "a");
+  spatialRemove(hash, "a");
+  expect(spatialQuery(hash, { x: 0, y: 0, w: 4, h: 4 })).toEqual(["c"]);
+  expect(hash.items.size).toBe(2);
+
+  expect(() => spatialMove(hash, "a", { x: 0, y: 0, w: 1, h: 1 })).toThrow();
+});
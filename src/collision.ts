@@ -0,0 +1,298 @@
+import type { Point, Rectangle } from ".";
+import { assert } from "./utils";
+
+/**
+ * A circle, centered on `x` and `y`.
+ */
+export interface Circle {
+  x: number;
+  y: number;
+  /**
+   * Radius of the circle.
+   */
+  r: number;
+}
+
+/**
+ * Where a moving rectangle first touches another rectangle, returned by
+ * {@link sweepRect}.
+ */
+export interface Contact {
+  /**
+   * The fraction of the movement (between 0 and 1) before the rectangles
+   * touch.
+   */
+  time: number;
+  /**
+   * The direction that the surface which was hit is facing. This is `0, 0`
+   * if the rectangles were already overlapping.
+   */
+  normal: Point;
+}
+
+/**
+ * A broadphase for finding items that might overlap without checking every
+ * pair of items. Items are stored in each grid cell that their rectangle
+ * touches.
+ *
+ * Use {@link spatialInsert}, {@link spatialMove} and {@link spatialRemove} to
+ * change items, so that the cells are kept up to date.
+ */
+export interface SpatialHash<T> {
+  /**
+   * The width and height of each cell. Cells should be a little bigger than
+   * most items.
+   */
+  cellSize: number;
+  /**
+   * The items in each cell, by cell key.
+   */
+  cells: Map<string, Set<T>>;
+  /**
+   * The rectangle and cell range for each item.
+   */
+  items: Map<T, SpatialItem>;
+}
+
+/**
+ * The position of an item in a {@link SpatialHash}.
+ */
+interface SpatialItem {
+  rect: Rectangle;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Checks whether two rectangles overlap. Rectangles that only share an edge
+ * don't overlap.
+ */
+export function overlapRects(a: Rectangle, b: Rectangle): boolean {
+  return a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+}
+
+/**
+ * Checks whether two circles overlap.
+ */
+export function overlapCircles(a: Circle, b: Circle): boolean {
+  let dx = a.x - b.x;
+  let dy = a.y - b.y;
+  let r = a.r + b.r;
+  return dx * dx + dy * dy < r * r;
+}
+
+/**
+ * Checks whether a circle overlaps a rectangle.
+ */
+export function overlapCircleRect(circle: Circle, rect: Rectangle): boolean {
+  // Find the closest point in the rectangle to the center of the circle
+  let x = Math.max(rect.x, Math.min(circle.x, rect.x + rect.w));
+  let y = Math.max(rect.y, Math.min(circle.y, rect.y + rect.h));
+  let dx = circle.x - x;
+  let dy = circle.y - y;
+  return dx * dx + dy * dy < circle.r * circle.r;
+}
+
+/**
+ * Checks whether a point is inside a rectangle. Like {@link over}, points
+ * on the right and bottom edges are outside.
+ */
+export function pointInRect(x: number, y: number, rect: Rectangle): boolean {
+  return x >= rect.x && y >= rect.y && x < rect.x + rect.w && y < rect.y + rect.h;
+}
+
+/**
+ * Checks whether a point is inside a circle.
+ */
+export function pointInCircle(x: number, y: number, circle: Circle): boolean {
+  let dx = x - circle.x;
+  let dy = y - circle.y;
+  return dx * dx + dy * dy < circle.r * circle.r;
+}
+
+/**
+ * Finds where a rectangle that moves by `dx` and `dy` first touches another
+ * rectangle. Fast moving rectangles can't pass through each other, because
+ * the whole movement is checked.
+ *
+ * ```ts
+ * let contact = sweepRect(player, vx, vy, wall);
+ * let time = contact?.time ?? 1;
+ * player.x += vx * time;
+ * player.y += vy * time;
+ * ```
+ *
+ * @returns The contact, or undefined if the rectangles don't touch during
+ * the movement.
+ */
+export function sweepRect(
+  rect: Rectangle,
+  dx: number,
+  dy: number,
+  target: Rectangle,
+): Contact | undefined {
+  if (overlapRects(rect, target)) {
+    return { time: 0, normal: { x: 0, y: 0 } };
+  }
+
+  let [entryX, exitX] = sweepAxis(rect.x, rect.w, dx, target.x, target.w);
+  let [entryY, exitY] = sweepAxis(rect.y, rect.h, dy, target.y, target.h);
+  let entry = Math.max(entryX, entryY);
+  let exit = Math.min(exitX, exitY);
+
+  if (entry >= exit || entry < 0 || entry > 1) {
+    return undefined;
+  }
+
+  if (entryX > entryY) {
+    return { time: entry, normal: { x: -Math.sign(dx), y: 0 } };
+  } else {
+    return { time: entry, normal: { x: 0, y: -Math.sign(dy) } };
+  }
+}
+
+/**
+ * Returns the times that a moving span enters and exits another span, as
+ * fractions of the movement.
+ */
+function sweepAxis(
+  start: number,
+  size: number,
+  delta: number,
+  targetStart: number,
+  targetSize: number,
+): [entry: number, exit: number] {
+  let near = targetStart - (start + size);
+  let far = targetStart + targetSize - start;
+
+  if (delta > 0) {
+    return [near / delta, far / delta];
+  } else if (delta < 0) {
+    return [far / delta, near / delta];
+  } else if (near < 0 && far > 0) {
+    // Not moving on this axis, but already overlapping on it
+    return [-Infinity, Infinity];
+  } else {
+    return [Infinity, -Infinity];
+  }
+}
+
+/**
+ * Creates an empty spatial hash.
+ * @param cellSize The width and height of each cell.
+ */
+export function createSpatialHash<T>(cellSize: number): SpatialHash<T> {
+  assert(cellSize > 0, "Cell size must be positive");
+  return { cellSize, cells: new Map(), items: new Map() };
+}
+
+/**
+ * Adds an item to a spatial hash, or moves it if it's already there.
+ * @param hash The spatial hash.
+ * @param item The item to add.
+ * @param rect The item's bounds. The rectangle is copied, so the item needs
+ * to be moved with {@link spatialMove} when the bounds change.
+ */
+export function spatialInsert<T>(hash: SpatialHash<T>, item: T, rect: Rectangle) {
+  if (hash.items.has(item)) {
+    return spatialMove(hash, item, rect);
+  }
+
+  let entry = spatialItem(hash, rect);
+  hash.items.set(item, entry);
+  addToCells(hash, item, entry);
+}
+
+/**
+ * Updates the bounds of an item in a spatial hash. Items that stay inside
+ * the same cells are cheap to move.
+ */
+export function spatialMove<T>(hash: SpatialHash<T>, item: T, rect: Rectangle) {
+  let current = hash.items.get(item);
+  assert(current, "Item is not in the spatial hash");
+  let entry = spatialItem(hash, rect);
+  hash.items.set(item, entry);
+
+  if (
+    entry.minX !== current.minX ||
+    entry.minY !== current.minY ||
+    entry.maxX !== current.maxX ||
+    entry.maxY !== current.maxY
+  ) {
+    removeFromCells(hash, item, current);
+    addToCells(hash, item, entry);
+  }
+}
+
+/**
+ * Removes an item from a spatial hash. Items that aren't in the hash are
+ * ignored.
+ */
+export function spatialRemove<T>(hash: SpatialHash<T>, item: T) {
+  let entry = hash.items.get(item);
+  if (entry == null) return;
+  hash.items.delete(item);
+  removeFromCells(hash, item, entry);
+}
+
+/**
+ * Finds the items in a spatial hash that overlap a rectangle (see
+ * {@link overlapRects}).
+ */
+export function spatialQuery<T>(hash: SpatialHash<T>, rect: Rectangle): T[] {
+  let { minX, minY, maxX, maxY } = spatialItem(hash, rect);
+  let found = new Set<T>();
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      let cell = hash.cells.get(`${x},${y}`);
+      if (cell == null) continue;
+
+      for (let item of cell) {
+        let entry = hash.items.get(item);
+        if (entry && overlapRects(entry.rect, rect)) found.add(item);
+      }
+    }
+  }
+
+  return Array.from(found);
+}
+
+/**
+ * Finds the range of cells that a rectangle touches.
+ */
+function spatialItem<T>(hash: SpatialHash<T>, rect: Rectangle): SpatialItem {
+  let { cellSize } = hash;
+  return {
+    rect: { x: rect.x, y: rect.y, w: rect.w, h: rect.h },
+    minX: Math.floor(rect.x / cellSize),
+    minY: Math.floor(rect.y / cellSize),
+    maxX: Math.floor((rect.x + rect.w) / cellSize),
+    maxY: Math.floor((rect.y + rect.h) / cellSize),
+  };
+}
+
+function addToCells<T>(hash: SpatialHash<T>, item: T, entry: SpatialItem) {
+  for (let y = entry.minY; y <= entry.maxY; y++) {
+    for (let x = entry.minX; x <= entry.maxX; x++) {
+      let key = `${x},${y}`;
+      let cell = hash.cells.get(key);
+      if (cell == null) hash.cells.set(key, cell = new Set());
+      cell.add(item);
+    }
+  }
+}
+
+function removeFromCells<T>(hash: SpatialHash<T>, item: T, entry: SpatialItem) {
+  for (let y = entry.minY; y <= entry.maxY; y++) {
+    for (let x = entry.minX; x <= entry.maxX; x++) {
+      let key = `${x},${y}`;
+      let cell = hash.cells.get(key);
+      cell?.delete(item);
+      // Drop empty cells so that the map doesn't grow forever
+      if (cell?.size === 0) hash.cells.delete(key);
+    }
+  }
+}
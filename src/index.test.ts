@@ -1,7 +1,8 @@
 import { afterEach, beforeEach, expect, test, vi } from "vitest";
 import { join } from "node:path";
 import { readFileSync } from "node:fs";
-import { bounds, canvas, end, global, local, measure, start, view, _update, _reset, down, pressed, released, Buttons, pointer, tween, delta, delay, write, draw, draw9Slice, font, preload, restore, save, writeLine, fillRect, color, strokeRect, line, stamp } from "../src/index";
+import { execFileSync } from "node:child_process";
+import { bounds, canvas, ctx, end, global, local, measure, start, view, _update, _reset, down, pressed, released, Buttons, pointer, tween, delta, delay, write, draw, draw9Slice, font, preload, restore, save, writeLine, fillRect, color, strokeRect, line, stamp, animate, play, stopAnimation, AnimatedSprite, GamepadButtons, GamepadAxes, axis, bind, unbind, rebind, bindings, saveBindings, loadBindings, actionDown, actionPressed, actionReleased, startRecording, stopRecording, replay, alpha, step, createGame, createCamera, camera, follow, shake, createTilemap, setTile, drawTilemap, Font, recordDraw, drawCommands, replayDraw, playSound, stopSounds, setVolume, getVolume, playMusic, stopMusic, fadeMusic, musicRow, Song, pushScene, popScene, replaceScene, currentScene, Scene, createWorld, addEntity, removeEntity, findEntities, drawWorld, Entity, Point, Rectangle, currentGame, Game, easeLinear } from "../src/index";
 import { font2 } from "./__fixtures__/font2";
 import * as sprites from "./__fixtures__/sprites";
 
@@ -52,6 +53,155 @@ test("delta", async () => {
   expect(delta()).toBe(20);
 });
 
+test("fixed timestep", async () => {
+  let callbacks: FrameRequestCallback[] = [];
+  let requestAnimationFrame = window.requestAnimationFrame;
+  window.requestAnimationFrame = callback => callbacks.push(callback);
+  let runFrame = (time: number) => callbacks.shift()!(time);
+
+  let updates = 0;
+  let renders: number[] = [];
+
+  await start({
+    updateRate: 100,
+    maxUpdatesPerFrame: 3,
+    update: () => updates++,
+    render: alpha => renders.push(alpha),
+  });
+
+  runFrame(1000);
+  expect(updates).toBe(0);
+  expect(renders).toEqual([0]);
+
+  runFrame(1015);
+  expect(updates).toBe(1);
+  expect(delta()).toBe(10);
+  expect(renders).toEqual([0, 0.5]);
+  expect(alpha()).toBe(0.5);
+
+  // Long frames are capped at the max number of updates per frame
+  runFrame(2000);
+  expect(updates).toBe(4);
+  expect(renders).toEqual([0, 0.5, 0]);
+
+  window.requestAnimationFrame = requestAnimationFrame;
+
+  // The loop callback would never be called in fixed timestep mode
+  await expect(start({ loop() {}, update() {} })).rejects.toThrow(/either loop or update/);
+});
+
+test("headless mode", async () => {
+  let frames = 0;
+  await start({ headless: true, width: 50, height: 60, loop: () => frames++ });
+  expect(canvas.width).toBe(50);
+  expect(canvas.height).toBe(60);
+
+  // Headless games don't listen for events
+  window.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+  expect(down("Enter")).toBe(false);
+
+  expect(step(20)).toBe(true);
+  expect(frames).toBe(1);
+  expect(delta()).toBe(20);
+
+  step();
+  expect(frames).toBe(2);
+});
+
+test("headless mode without a DOM", () => {
+  // Every test in this file runs in JSDOM, so the game runs in a separate
+  // Node process instead.
+  let script = join(__dirname, "__fixtures__/headless.mjs");
+  let output = execFileSync(process.execPath, [script], { encoding: "utf8" });
+  expect(JSON.parse(output)).toEqual({ frames: 2, width: 50, height: 60, fillRects: 2 });
+}, 60000);
+
+test("stepping through a replay", async () => {
+  let log: boolean[] = [];
+
+  await start({
+    headless: true,
+    replay: { frames: [{ t: 10 }, { t: 10, p: ["Enter"] }] },
+    loop: () => log.push(pressed("Enter")),
+  });
+
+  expect(step()).toBe(true);
+  expect(step()).toBe(true);
+  expect(step()).toBe(false);
+  expect(log).toEqual([false, true]);
+});
+
+test("multiple games", async () => {
+  let a = createGame({ headless: true });
+  let b = createGame({ headless: true });
+  await a.start({ width: 10, height: 20 });
+  await b.start({ width: 30, height: 40 });
+
+  expect(a.canvas).not.toBe(b.canvas);
+  expect(a.canvas).not.toBe(canvas);
+  expect(a.canvas.width).toBe(10);
+  expect(b.canvas.width).toBe(30);
+
+  a.view(5, 5, 10, 10);
+  expect(a.bounds()).toEqual({ x: 5, y: 5, w: 10, h: 10 });
+  expect(b.bounds()).toEqual({ x: 0, y: 0, w: Infinity, h: Infinity });
+  expect(bounds()).toEqual({ x: 0, y: 0, w: Infinity, h: Infinity });
+  a.end();
+
+  let object = { x: 0 };
+  a.tween(object, { x: 100 }, 100);
+  b.step(50);
+  expect(object.x).toBe(0);
+  a.step(50);
+  expect(object.x).toBe(50);
+  expect(a.delta()).toBe(50);
+  expect(delta()).toBe(0);
+});
+
+test("free functions in game callbacks", async () => {
+  let game = createGame({ headless: true });
+  let seen: (Rectangle | number)[] = [];
+
+  await game.start({
+    loop() {
+      view(10, 20);
+      seen.push(bounds(), delta());
+      end();
+    },
+  });
+
+  game.step(20);
+  game.step(30);
+  expect(seen).toEqual([
+    { x: 10, y: 20, w: Infinity, h: Infinity }, 0,
+    { x: 10, y: 20, w: Infinity, h: Infinity }, 20,
+  ]);
+  expect(bounds()).toEqual({ x: 0, y: 0, w: Infinity, h: Infinity });
+});
+
+test("game handles across awaits", async () => {
+  let game = createGame({ headless: true });
+  let handles: Game[] = [];
+
+  await game.start({
+    async loop() {
+      let handle = currentGame();
+      handles.push(handle);
+      await delay(10);
+      handle.fillRect(0, 0, 1, 1);
+    },
+  });
+
+  let fillRect = vi.spyOn(game.ctx, "fillRect");
+  game.step(10);
+  await new Promise(resolve => setTimeout(resolve));
+  expect(handles).toEqual([game]);
+  expect(fillRect).toHaveBeenCalledTimes(1);
+  expect(currentGame()).not.toBe(game);
+  expect(currentGame()).toBe(currentGame());
+  vi.restoreAllMocks();
+});
+
 test("canvas size", async () => {
   await start({ width: 110, height: 120 });
   expect(canvas.width).toBe(110);
@@ -83,6 +233,227 @@ test("measure", () => {
   ].map(text => measure(text))).toMatchSnapshot();
 });
 
+test("measuring wrapped text", () => {
+  // "hello" is 21px wide, "world" is 24px wide, and spaces are 5px wide
+  expect(measure("hello world", { maxWidth: 50 })).toEqual({ x: 0, y: 0, w: 50, h: 7 });
+  expect(measure("hello world", { maxWidth: 30 })).toEqual({ x: 0, y: 0, w: 24, h: 14 });
+  expect(measure("hello   world\nagain", { maxWidth: 30 })).toEqual({ x: 0, y: 0, w: 24, h: 21 });
+
+  // Words that don't fit on their own line are broken
+  expect(measure("abcdefgh", { maxWidth: 12 })).toEqual({ x: 0, y: 0, w: 10, h: 28 });
+});
+
+test("measuring aligned text", () => {
+  expect(measure("hello world", { maxWidth: 30, align: "center" })).toEqual({ x: 3, y: 0, w: 24, h: 14 });
+  expect(measure("hello world", { maxWidth: 30, align: "right" })).toEqual({ x: 6, y: 0, w: 24, h: 14 });
+  expect(measure("hello\nworld", { align: "right" })).toEqual({ x: 0, y: 0, w: 24, h: 14 });
+  expect(measure("hello", { height: 21, valign: "middle" })).toEqual({ x: 0, y: 7, w: 21, h: 7 });
+  expect(measure("hello", { height: 21, valign: "bottom" })).toEqual({ x: 0, y: 14, w: 21, h: 7 });
+});
+
+test("writing wrapped text", async () => {
+  await start({ width: 100, height: 100 });
+  let drawImage = vi.spyOn(ctx, "drawImage");
+  let options = { maxWidth: 30, align: "right", height: 30, valign: "bottom" } as const;
+  write("hello world", 10, 20, { ...options, cache: false });
+
+  // Written glyphs fill the same box that measure returns
+  let box = measure("hello world", options);
+  let xs = drawImage.mock.calls.map(call => call[5] as number);
+  let ys = drawImage.mock.calls.map(call => call[6] as number);
+  expect(Math.min(...xs)).toBe(10 + box.x);
+  expect(Math.min(...ys)).toBe(20 + box.y);
+  expect(Math.max(...ys) + 7).toBe(20 + box.y + box.h);
+  expect(drawImage).toHaveBeenCalledTimes(10);
+
+  vi.restoreAllMocks();
+});
+
+test("measuring text with markup", () => {
+  expect(measure("Deal {red}5 damage{/}!")).toEqual(measure("Deal 5 damage!"));
+  expect(measure("{shadow:black}hello{/}")).toEqual(measure("hello"));
+  expect(measure("{{red}")).toEqual(measure("{red}", { markup: false }));
+  expect(measure("{{").w).toBe(4);
+
+  // Unclosed tags are written as text
+  expect(measure("{red").w).toBe(measure("red").w + 4);
+
+  // Only colors and known tags are markup
+  expect(measure("{#f00}hi{/}")).toEqual(measure("hi"));
+  expect(measure("{shadow:#000000}hi")).toEqual(measure("hi"));
+  expect(measure("{score}")).toEqual(measure("{score}", { markup: false }));
+  expect(measure("{shadow:nope}")).toEqual(measure("{shadow:nope}", { markup: false }));
+  expect(measure("{#ff}")).toEqual(measure("{#ff}", { markup: false }));
+});
+
+test("writing text with markup", async () => {
+  await start({ width: 100, height: 100 });
+  let drawImage = vi.spyOn(ctx, "drawImage");
+
+  write("a{red}b{/}c", 0, 0, { color: "blue", cache: false });
+  let [a, b, c] = drawImage.mock.calls.map(call => call[0]);
+  expect(a).toBe(c);
+  expect(a).not.toBe(b);
+
+  // Shadowed glyphs are drawn 3 extra times
+  drawImage.mockClear();
+  write("{shadow:black}a{shadow:none}b{/}c{/}d", 0, 0, { cache: false });
+  expect(drawImage).toHaveBeenCalledTimes(4 + 1 + 4 + 1);
+
+  vi.restoreAllMocks();
+});
+
+test("writing text with glyph maps", async () => {
+  let unicodeFont: Font = {
+    ...font2,
+    glyphs: "ab😀",
+    ranges: [{ from: 0x410, to: 0x42F, glyph: 4 }],
+    columns: 2,
+  };
+
+  preload(unicodeFont);
+  await start();
+  let drawImage = vi.spyOn(ctx, "drawImage");
+  let sources = () => drawImage.mock.calls.map(call => [call[1], call[2]]);
+
+  // Surrogate pairs are a single glyph
+  write("ba😀", 0, 0, { font: unicodeFont, cache: false });
+  expect(sources()).toEqual([[6, 0], [0, 0], [0, 6]]);
+  expect(measure("😀", unicodeFont).w).toBe(6);
+
+  // Code point ranges, and characters without glyphs are skipped
+  drawImage.mockClear();
+  write("БzЯ", 0, 0, { font: unicodeFont, cache: false });
+  expect(sources()).toEqual([[6, 12], [6, 102]]);
+
+  vi.restoreAllMocks();
+});
+
+test("writing text with multiple pages", async () => {
+  let pagedFont: Font = { ...font2, rows: 1, columns: 2, pages: ["page2.png"] };
+  await start();
+  let drawImage = vi.spyOn(ctx, "drawImage");
+
+  write("\x01\x02\x03\x04", 0, 0, { font: pagedFont, cache: false });
+  let calls = drawImage.mock.calls;
+  expect(calls.map(call => [call[1], call[2]])).toEqual([[6, 0], [0, 0], [6, 0]]);
+  expect(calls[0][0]).not.toBe(calls[1][0]);
+  expect(calls[1][0]).toBe(calls[2][0]);
+
+  vi.restoreAllMocks();
+});
+
+test("writing text with bmfonts", async () => {
+  let bmfont: Font = {
+    url: font2.url,
+    glyphWidth: 3,
+    glyphHeight: 8,
+    lineHeight: 10,
+    glyphWidthsTable: {},
+    chars: {
+      " ": { x: 0, y: 0, w: 0, h: 0, offsetX: 0, offsetY: 0, advance: 3, page: 0 },
+      "A": { x: 1, y: 2, w: 5, h: 7, offsetX: 0, offsetY: 1, advance: 6, page: 0 },
+      "V": { x: 8, y: 2, w: 5, h: 7, offsetX: -1, offsetY: 2, advance: 6, page: 0 },
+    },
+    kerning: { AV: -2 },
+  };
+
+  await start();
+  let drawImage = vi.spyOn(ctx, "drawImage");
+  write("AV A?", 10, 20, { font: bmfont, cache: false });
+
+  // Empty and missing glyphs aren't drawn
+  expect(drawImage.mock.calls.map(call => call.slice(1))).toEqual([
+    [1, 2, 5, 7, 10, 21, 5, 7],
+    [8, 2, 5, 7, 13, 22, 5, 7],
+    [1, 2, 5, 7, 23, 21, 5, 7],
+  ]);
+
+  expect(measure("AV A?", bmfont)).toEqual({ x: 0, y: 0, w: 19, h: 10 });
+  expect(measure("AV A", { font: bmfont, maxWidth: 12 })).toEqual({ x: 0, y: 0, w: 10, h: 20 });
+
+  vi.restoreAllMocks();
+});
+
+test("kerning and spacing", async () => {
+  let spaced: Font = { ...font2, kerning: { AV: -2 }, letterSpacing: 1, lineSpacing: 2 };
+  expect(measure("AVA", spaced)).toEqual({ x: 0, y: 0, w: 18, h: 6 });
+  expect(measure("A\nV", spaced)).toEqual({ x: 0, y: 0, w: 6, h: 14 });
+
+  await start();
+  font(spaced);
+  let drawImage = vi.spyOn(ctx, "drawImage");
+  let positions = () => drawImage.mock.calls.map(call => [call[5], call[6]]);
+
+  // The cursor leaves a (spaced) space after the previous text
+  write("A", 0, 0);
+  write("V");
+  expect(positions()).toEqual([[0, 0], [14, 0]]);
+
+  drawImage.mockClear();
+  writeLine("A", 0, 0);
+  writeLine("V");
+  expect(positions()).toEqual([[0, 0], [0, 8]]);
+
+  vi.restoreAllMocks();
+});
+
+test("caching text", async () => {
+  let canvases = 0;
+  let createCanvas = (w: number, h: number) => {
+    canvases++;
+    let canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    return canvas;
+  };
+
+  await start({ createCanvas, textCacheSize: 3 });
+  let drawImage = vi.spyOn(ctx, "drawImage");
+
+  // Cached text is drawn with a single image
+  write("hello", 0, 0, "red", "black");
+  expect(drawImage).toHaveBeenCalledTimes(1);
+  let before = canvases;
+  write("hello", 10, 10, "red", "black");
+  expect(drawImage).toHaveBeenCalledTimes(2);
+  expect(drawImage.mock.calls[1].slice(5, 7)).toEqual([10, 10]);
+  expect(canvases).toBe(before);
+
+  // Different colors are cached separately
+  write("hello", 0, 0, "red");
+  expect(canvases).toBe(before + 1);
+
+  // The least recently written text is evicted when the cache fills up
+  write("a", 0, 0, "red");
+  write("b", 0, 0, "red");
+  write("hello", 0, 0, "red");
+  expect(canvases).toBe(before + 3);
+  write("hello", 0, 0, "red", "black");
+  expect(canvases).toBe(before + 4);
+
+  // Uncached text draws each glyph
+  drawImage.mockClear();
+  write("hello", 0, 0, { cache: false });
+  expect(drawImage).toHaveBeenCalledTimes(5);
+
+  // Options that contain separators don't share a cache key
+  write("hello", 0, 0, "rgb(0 0 0 / 50%)", "red");
+  before = canvases;
+  write("hello", 0, 0, "rgb(0 0 0 ", " 50%)/red");
+  expect(canvases).toBeGreaterThan(before);
+
+  // Text that is too big for the texture cache is drawn without caching
+  let long = "x".repeat(2000);
+  expect(measure(long).w).toBeGreaterThan(4096);
+  drawImage.mockClear();
+  write(long, 0, 0, "red");
+  write(long, 0, 0, "red");
+  expect(drawImage).toHaveBeenCalledTimes(4000);
+
+  vi.restoreAllMocks();
+});
+
 test("writing text", async () => {
   await start({ width: 100, height: 100 });
   write("hello world", 0, 10, "red", "black");
@@ -176,6 +547,191 @@ test("drawing nine slices", async () => {
   expect(canvas).toMatchSnapshot();
 });
 
+test("drawing sprites with transforms", () => {
+  let translate = vi.spyOn(ctx, "translate");
+  let transform = vi.spyOn(ctx, "transform");
+  let drawImage = vi.spyOn(ctx, "drawImage").mockImplementation(() => {});
+  let matrix = () => transform.mock.calls[0].map(value => value + 0);
+
+  draw(sprites.green_man, 10, 20, { flipX: true });
+  expect(translate).toHaveBeenCalledWith(18, 28);
+  expect(matrix()).toEqual([-1, 0, 0, 1, 0, 0]);
+  expect(drawImage.mock.calls[0].slice(1)).toEqual([16, 0, 16, 16, -8, -8, 16, 16]);
+
+  vi.restoreAllMocks();
+});
+
+test("drawing sprites rotated by quarter turns", () => {
+  let translate = vi.spyOn(ctx, "translate");
+  let transform = vi.spyOn(ctx, "transform");
+  vi.spyOn(ctx, "drawImage").mockImplementation(() => {});
+  let sprite = { url: sprites.green_man.url, x: 0, y: 0, w: 5, h: 4 };
+
+  draw(sprite, 0, 0, { rotation: Math.PI / 2 });
+  expect(transform.mock.calls[0].map(value => value + 0)).toEqual([0, 1, -1, 0, 0, 0]);
+  // The rotated sprite covers x=1..5 and y=0..5 rather than half pixels
+  expect(translate).toHaveBeenCalledWith(3, 2.5);
+
+  vi.restoreAllMocks();
+});
+
+test("drawing sprites around their pivot", () => {
+  let translate = vi.spyOn(ctx, "translate");
+  let drawImage = vi.spyOn(ctx, "drawImage").mockImplementation(() => {});
+  let sprite = { ...sprites.green_man, pivot: { x: 4, y: 16 } };
+
+  draw(sprite, 10, 20, { flipX: true });
+  expect(translate).toHaveBeenLastCalledWith(10, 20);
+  expect(drawImage.mock.lastCall!.slice(5)).toEqual([-4, -16, 16, 16]);
+
+  draw(sprite, 10, 20, { w: 32, h: 32 });
+  expect(drawImage.mock.lastCall!.slice(5)).toEqual([-8, -32, 32, 32]);
+
+  draw(sprite, 10, 20, { pivot: { x: 8, y: 8 } });
+  expect(drawImage.mock.lastCall!.slice(5)).toEqual([-8, -8, 16, 16]);
+
+  draw(sprite, 10, 20, { pivot: false });
+  expect(translate).toHaveBeenLastCalledWith(18, 28);
+
+  vi.restoreAllMocks();
+});
+
+test("drawing sprites with alpha", () => {
+  let alphas: number[] = [];
+  vi.spyOn(ctx, "drawImage").mockImplementation(() => alphas.push(ctx.globalAlpha));
+  ctx.globalAlpha = 0.5;
+  draw(sprites.green_man, 0, 0, { alpha: 0.5 });
+  expect(alphas).toEqual([0.25]);
+  expect(ctx.globalAlpha).toBe(0.5);
+  vi.restoreAllMocks();
+});
+
+test("drawing tilemaps", async () => {
+  let chunks = 0;
+  let createCanvas = (w: number, h: number) => {
+    if (w === 32 && h === 32) chunks++;
+    let canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    return canvas;
+  };
+
+  preload(sprites);
+  await start({ width: 32, height: 32, createCanvas });
+  let map = createTilemap({ sheet: sprites, width: 4, height: 4, tileWidth: 16, tileHeight: 16, chunkSize: 2 });
+  setTile(map, 0, 0, "green_man");
+  setTile(map, 3, 3, "red_man");
+  let drawImage = vi.spyOn(ctx, "drawImage");
+
+  // Only the top left chunk is visible
+  drawTilemap(map);
+  expect(chunks).toBe(1);
+  expect(drawImage).toHaveBeenCalledTimes(1);
+
+  // Chunks are cached until their tiles change
+  drawTilemap(map);
+  expect(chunks).toBe(1);
+  setTile(map, 1, 1, "red_man");
+  drawTilemap(map);
+  expect(chunks).toBe(2);
+
+  // Offscreen chunks are culled
+  drawTilemap(map, -32, -32);
+  expect(chunks).toBe(3);
+  expect(drawImage).toHaveBeenCalledTimes(4);
+  drawImage.mockClear();
+
+  // Chunks outside the current view's bounds are culled too
+  view(0, 0, 16, 16);
+  drawTilemap(map, -16, -16);
+  expect(drawImage).toHaveBeenCalledTimes(1);
+  end();
+
+  vi.restoreAllMocks();
+});
+
+test("drawing tilemaps with tall sprites", async () => {
+  let chunks: [number, number][] = [];
+  let createCanvas = (w: number, h: number) => {
+    if (w > 1) chunks.push([w, h]);
+    let canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    return canvas;
+  };
+
+  await start({ width: 32, height: 32, createCanvas });
+  let sheet = { tree: { ...sprites.green_man, h: 32 } };
+  let map = createTilemap({ sheet, width: 2, height: 4, tileWidth: 16, tileHeight: 16, chunkSize: 2 });
+  setTile(map, 0, 0, "tree");
+  setTile(map, 0, 2, "tree");
+  chunks = [];
+  let drawImage = vi.spyOn(ctx, "drawImage");
+
+  // Chunks are padded so that the tree in the top row isn't clipped
+  drawTilemap(map, 0, 16);
+  expect(chunks).toEqual([[32, 48]]);
+  expect(drawImage).toHaveBeenCalledTimes(1);
+  expect(drawImage.mock.calls[0].slice(5)).toEqual([0, 0, 32, 48]);
+  drawImage.mockClear();
+
+  // The chunk below the view is drawn because its tree overhangs into it
+  drawTilemap(map);
+  expect(drawImage).toHaveBeenCalledTimes(2);
+  expect(drawImage.mock.calls[1].slice(5)).toEqual([0, 16, 32, 48]);
+
+  vi.restoreAllMocks();
+});
+
+test("recording draw commands", async () => {
+  await start({ width: 100, height: 100, headless: true });
+  recordDraw();
+  view(10, 20);
+  fillRect(1, 2, 3, 4, "red");
+  draw(sprites.green_man, 5, 5);
+  write("hi", 0, 0, "blue");
+  end();
+
+  let commands = drawCommands();
+  expect(commands).toEqual([
+    { type: "fillRect", x: 11, y: 22, w: 3, h: 4, scale: 1, color: "red" },
+    {
+      type: "draw",
+      sprite: { url: sprites.green_man.url, x: 16, y: 0, w: 16, h: 16 },
+      x: 15,
+      y: 25,
+      scale: 1,
+      options: { w: 16, h: 16, pivot: false },
+    },
+    {
+      type: "write",
+      text: "hi",
+      x: 10,
+      y: 20,
+      scale: 1,
+      options: expect.objectContaining({ color: "blue" }),
+    },
+  ]);
+
+  // Commands can be replayed from JSON onto another canvas
+  let target = document.createElement("canvas");
+  let targetCtx = target.getContext("2d")!;
+  let setTransform = vi.spyOn(targetCtx, "setTransform");
+  let fill = vi.spyOn(targetCtx, "fillRect");
+  replayDraw(JSON.parse(JSON.stringify(commands)), target);
+  expect(setTransform).toHaveBeenCalledWith(1, 0, 0, 1, 11, 22);
+  expect(fill).toHaveBeenCalledWith(0, 0, 3, 4);
+  expect(drawCommands()).toHaveLength(3);
+
+  // The commands are emptied at the start of each frame
+  step();
+  expect(drawCommands()).toEqual([]);
+  recordDraw(false);
+  expect(() => drawCommands()).toThrow(/Not recording/);
+
+  vi.restoreAllMocks();
+});
+
 test("views", async () => {
   await start({ width: 100, height: 100 });
   view(10, 10, 50, 50);
@@ -226,6 +782,85 @@ test("bounds", () => {
   expect(bounds()).toEqual({ x: 0, y: 0, w: Infinity, h: Infinity });
 });
 
+test("bounds with camera zoom", () => {
+  let cam = createCamera({ x: 50, y: 50, w: 100, h: 100, zoom: 2 });
+  camera(cam);
+  expect(bounds()).toEqual({ x: -50, y: -50, w: 75, h: 75 });
+  view(30, 40, 10, 20);
+  expect(bounds()).toEqual({ x: 10, y: 30, w: 10, h: 20 });
+  end();
+  end();
+});
+
+test("cameras", () => {
+  let cam = createCamera({ x: 50, y: 50, w: 100, h: 100 });
+  camera(cam);
+  expect(local(10, 10)).toEqual({ x: 10, y: 10 });
+  end();
+
+  cam.x = 100;
+  camera(cam);
+  expect(local(0, 0)).toEqual({ x: 50, y: 0 });
+  expect(global(50, 0)).toEqual({ x: 0, y: 0 });
+  end();
+
+  expect(local(0, 0)).toEqual({ x: 0, y: 0 });
+});
+
+test("camera zoom", () => {
+  let cam = createCamera({ x: 0, y: 0, w: 100, h: 100, zoom: 2 });
+  camera(cam);
+  expect(local(50, 50)).toEqual({ x: 0, y: 0 });
+  expect(local(60, 50)).toEqual({ x: 5, y: 0 });
+  expect(global(5, 0)).toEqual({ x: 60, y: 50 });
+
+  view(10, 10);
+  expect(global(0, 0)).toEqual({ x: 70, y: 70 });
+  end();
+  end();
+});
+
+test("camera follow", () => {
+  let target = { x: 0, y: 0 };
+  let cam = createCamera({ w: 100, h: 100 });
+  follow(cam, target, { w: 20, h: 20 });
+
+  // Target is inside the deadzone
+  target.x = 5;
+  frame();
+  expect(cam.x).toBe(0);
+
+  target.x = 30;
+  frame();
+  expect(cam.x).toBe(20);
+
+  cam.smoothing = 0.5;
+  target.x = 60;
+  frame(1000 / 60);
+  expect(cam.x).toBeCloseTo(35);
+});
+
+test("camera bounds", () => {
+  let cam = createCamera({ w: 100, h: 100, bounds: { x: 0, y: 0, w: 200, h: 50 } });
+  expect(cam.x).toBe(50);
+  expect(cam.y).toBe(25);
+
+  cam.x = 500;
+  frame();
+  expect(cam.x).toBe(150);
+});
+
+test("camera shake", () => {
+  let cam = createCamera({ w: 100, h: 100 });
+  shake(cam, 4, 100);
+  frame(50);
+  expect(Math.abs(cam.offset.x)).toBeLessThanOrEqual(2);
+  expect(Math.abs(cam.offset.y)).toBeLessThanOrEqual(2);
+  frame(50);
+  frame(50);
+  expect(cam.offset).toEqual({ x: 0, y: 0 });
+});
+
 test("keyboard button states", async () => {
   await start();
 
@@ -272,6 +907,149 @@ test("mouse button states", async () => {
   expect(released(Buttons.MouseLeft)).toBe(false);
 });
 
+/**
+ * A gamepad with writable buttons and axes, for simulating input.
+ */
+interface FakeGamepad extends Partial<Gamepad> {
+  connected: boolean;
+  axes: number[];
+  buttons: { pressed: boolean; touched: boolean; value: number }[];
+}
+
+/**
+ * Creates a fake gamepad with the standard layout.
+ */
+function createGamepad(): FakeGamepad {
+  return {
+    connected: true,
+    axes: [0, 0, 0, 0],
+    buttons: Array.from({ length: 17 }, () => ({ pressed: false, touched: false, value: 0 })),
+  };
+}
+
+/**
+ * JSDOM doesn't support gamepads, so fake the list of connected gamepads.
+ */
+function connectGamepads(...gamepads: (FakeGamepad | null)[]) {
+  Object.assign(navigator, { getGamepads: () => gamepads });
+}
+
+function disconnectGamepads() {
+  Reflect.deleteProperty(navigator, "getGamepads");
+}
+
+test("gamepad button states", async () => {
+  let gamepad = createGamepad();
+  connectGamepads(gamepad, null);
+  await start();
+
+  frame();
+  expect(down(GamepadButtons.A)).toBe(false);
+  expect(pressed(GamepadButtons.A)).toBe(false);
+
+  gamepad.buttons[0].pressed = true;
+  frame();
+  expect(down(GamepadButtons.A)).toBe(true);
+  expect(pressed(GamepadButtons.A)).toBe(true);
+
+  frame();
+  expect(down(GamepadButtons.A)).toBe(true);
+  expect(pressed(GamepadButtons.A)).toBe(false);
+
+  gamepad.buttons[0].pressed = false;
+  frame();
+  expect(down(GamepadButtons.A)).toBe(false);
+  expect(released(GamepadButtons.A)).toBe(true);
+
+  frame();
+  expect(released(GamepadButtons.A)).toBe(false);
+  disconnectGamepads();
+});
+
+test("gamepad axes", async () => {
+  let gamepad = createGamepad();
+  connectGamepads(gamepad);
+  await start({ deadzone: 0.2 });
+
+  gamepad.axes[0] = 0.1;
+  gamepad.buttons[7].value = 0.1;
+  frame();
+  expect(axis(GamepadAxes.LeftX)).toBe(0);
+  expect(axis(GamepadAxes.RightTrigger)).toBe(0);
+
+  gamepad.axes[0] = -1;
+  gamepad.buttons[7].value = 0.6;
+  frame();
+  expect(axis(GamepadAxes.LeftX)).toBeCloseTo(-1);
+  expect(axis(GamepadAxes.LeftY)).toBeCloseTo(0);
+  expect(axis(GamepadAxes.RightTrigger)).toBeCloseTo(0.5);
+
+  // A deadzone of 1 ignores analog input, instead of dividing by zero
+  _reset();
+  await start({ deadzone: 1 });
+  frame();
+  expect(axis(GamepadAxes.LeftX)).toBe(0);
+  expect(axis(GamepadAxes.RightTrigger)).toBe(0);
+  disconnectGamepads();
+});
+
+test("action bindings", async () => {
+  await start();
+  bind("jump", "ArrowUp", "w");
+  bind("jump", GamepadButtons.A, "w");
+  expect(bindings("jump")).toEqual(["ArrowUp", "w", GamepadButtons.A]);
+
+  unbind("jump", "w");
+  expect(bindings("jump")).toEqual(["ArrowUp", GamepadButtons.A]);
+
+  rebind("jump", " ");
+  expect(bindings("jump")).toEqual([" "]);
+
+  unbind("jump");
+  expect(bindings("jump")).toEqual([]);
+});
+
+test("action button states", async () => {
+  await start();
+  bind("fire", "x", Buttons.MouseLeft);
+
+  window.dispatchEvent(new KeyboardEvent("keydown", { key: "x" }));
+  expect(actionDown("fire")).toBe(true);
+  expect(actionPressed("fire")).toBe(true);
+
+  frame();
+  window.dispatchEvent(new PointerEvent("pointerdown"));
+  expect(actionDown("fire")).toBe(true);
+  expect(actionPressed("fire")).toBe(false);
+
+  frame();
+  window.dispatchEvent(new KeyboardEvent("keyup", { key: "x" }));
+  expect(actionDown("fire")).toBe(true);
+  expect(actionReleased("fire")).toBe(false);
+
+  frame();
+  window.dispatchEvent(new PointerEvent("pointerup"));
+  expect(actionDown("fire")).toBe(false);
+  expect(actionReleased("fire")).toBe(true);
+});
+
+test("saving and loading bindings", () => {
+  bind("left", "ArrowLeft", "a");
+  bind("fire", Buttons.MouseLeft);
+  let saved = saveBindings();
+
+  unbind("left");
+  unbind("fire");
+  loadBindings(saved);
+  expect(bindings("left")).toEqual(["ArrowLeft", "a"]);
+  expect(bindings("fire")).toEqual([Buttons.MouseLeft]);
+
+  expect(() => loadBindings(`{ "left": "a" }`)).toThrow(/Invalid bindings/);
+  expect(() => loadBindings(`{ "left": ["a", null] }`)).toThrow(/Invalid bindings/);
+  expect(() => loadBindings(`["a"]`)).toThrow(/Invalid bindings/);
+  expect(bindings("left")).toEqual(["ArrowLeft", "a"]);
+});
+
 test("pointer coordinates", async () => {
   await start({ width: 20, height: 40 });
 
@@ -287,6 +1065,435 @@ test("pointer coordinates", async () => {
   expect(pointer()).toEqual({ x: 8, y: 16 });
 });
 
+test("recording input", async () => {
+  await start();
+  startRecording();
+  frame(10);
+
+  window.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+  frame(20);
+  frame(30);
+
+  window.dispatchEvent(new KeyboardEvent("keyup", { key: "Enter" }));
+  frame(40);
+
+  let recording = stopRecording();
+  expect(recording.frames).toEqual([
+    { t: 10 },
+    { t: 20, p: ["Enter"], d: ["Enter"] },
+    { t: 30 },
+    { t: 40, r: ["Enter"], d: [] },
+  ]);
+  expect(() => stopRecording()).toThrow(/Not recording/);
+});
+
+test("replaying input", () => {
+  let recording = {
+    frames: [
+      { t: 10 },
+      { t: 20, p: ["Enter"], d: ["Enter"], m: [5, 6] as [number, number] },
+      { t: 30 },
+      { t: 40, r: ["Enter"], d: [] },
+    ],
+  };
+
+  let log: [number, boolean, boolean, boolean, Point][] = [];
+
+  replay(JSON.parse(JSON.stringify(recording)), () => {
+    log.push([delta(), pressed("Enter"), down("Enter"), released("Enter"), pointer()]);
+  });
+
+  expect(log).toEqual([
+    [0, false, false, false, { x: NaN, y: NaN }],
+    [10, true, true, false, { x: 5, y: 6 }],
+    [20, false, true, false, { x: 5, y: 6 }],
+    [30, false, false, true, { x: 5, y: 6 }],
+  ]);
+  expect(delta()).toBe(40);
+});
+
+interface FakeParam {
+  value: number;
+}
+
+/**
+ * A fake audio node, with whichever params the real node would have.
+ */
+interface FakeNode {
+  connections: FakeNode[];
+  connect(node: FakeNode): void;
+  gain?: FakeParam;
+  pan?: FakeParam;
+}
+
+interface FakeSource extends FakeNode {
+  buffer?: unknown;
+  loop?: boolean;
+  playbackRate: FakeParam;
+  start: ReturnType<typeof vi.fn>;
+  stop: ReturnType<typeof vi.fn>;
+}
+
+/**
+ * JSDOM doesn't support WebAudio, so sounds are played through a fake audio
+ * context that keeps track of how its nodes are connected.
+ */
+class FakeAudioContext {
+  state = "running";
+  sampleRate = 1000;
+  currentTime = 0;
+  destination = this.createNode({});
+  sources: FakeSource[] = [];
+
+  createGain() {
+    return this.createNode({ gain: { value: 1 } });
+  }
+
+  createStereoPanner() {
+    return this.createNode({ pan: { value: 0 } });
+  }
+
+  createBufferSource() {
+    let source = this.createNode({
+      playbackRate: { value: 1 },
+      start: vi.fn(),
+      stop: vi.fn(),
+      addEventListener() {},
+    });
+
+    this.sources.push(source);
+    return source;
+  }
+
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    return {
+      length,
+      sampleRate,
+      copyToChannel(samples: Float32Array) {
+        expect(samples).toHaveLength(length);
+      },
+    };
+  }
+
+  async decodeAudioData(data: ArrayBuffer) {
+    return { length: data.byteLength };
+  }
+
+  async resume() {
+    this.state = "running";
+  }
+
+  async close() {
+    this.state = "closed";
+  }
+
+  private createNode<Props extends object>(props: Props): Props & FakeNode {
+    let connections: FakeNode[] = [];
+    return { ...props, connections, connect: (node: FakeNode) => connections.push(node) };
+  }
+}
+
+/**
+ * Installs a fake audio context, which is returned whenever a game creates
+ * an audio context.
+ */
+function fakeAudioContext(): FakeAudioContext {
+  let context = new FakeAudioContext();
+  vi.stubGlobal("AudioContext", function () { return context; });
+  return context;
+}
+
+test("sounds", async () => {
+  let context = fakeAudioContext();
+  let url = "data:audio/wav;base64,AAAA";
+  preload(url);
+  await start();
+
+  setVolume(0.5);
+  setVolume(0.25, "music");
+  expect(getVolume("music")).toBe(0.25);
+  expect(getVolume("sfx")).toBe(1);
+
+  let sound = playSound(url, { volume: 0.5, pitch: 2, pan: -1, loop: true, channel: "music" });
+  let [source] = context.sources;
+  expect(sound?.source).toBe(source);
+  expect(source.buffer).toEqual({ length: 3 });
+  expect(source.playbackRate.value).toBe(2);
+  expect(source.loop).toBe(true);
+  expect(source.start).toHaveBeenCalled();
+
+  // Sounds go through a gain, a panner, their channel and the master gain
+  let gain = source.connections[0];
+  let panner = gain.connections[0];
+  let channel = panner.connections[0];
+  let master = channel.connections[0];
+  expect(gain.gain?.value).toBe(0.5);
+  expect(panner.pan?.value).toBe(-1);
+  expect(channel.gain?.value).toBe(0.25);
+  expect(master.gain?.value).toBe(0.5);
+  expect(master.connections).toEqual([context.destination]);
+
+  stopSounds("music");
+  expect(source.stop).toHaveBeenCalled();
+  expect(sound?.playing).toBe(false);
+
+  // Sounds that don't loop are skipped until audio is unlocked
+  context.state = "suspended";
+  expect(playSound(url)).toBe(undefined);
+  window.dispatchEvent(new KeyboardEvent("keydown", { key: "a" }));
+  expect(playSound(url)).toBeDefined();
+
+  // Sounds that haven't loaded are skipped
+  expect(playSound("missing.wav")).toBe(undefined);
+});
+
+test("unlocking audio", async () => {
+  let context = fakeAudioContext();
+  context.state = "suspended";
+  await start();
+
+  // The audio context is created and resumed by the first interaction
+  window.dispatchEvent(new PointerEvent("pointerdown"));
+  expect(context.state).toBe("running");
+});
+
+test("music", async () => {
+  let context = fakeAudioContext();
+  await start({ headless: true });
+
+  let song: Song = {
+    bpm: 600,
+    rowsPerBeat: 1,
+    instruments: { lead: {} },
+    patterns: { a: "C4 . E4 ." },
+    channels: [{ instrument: "lead", sequence: ["a"] }],
+  };
+
+  playMusic(song, { volume: 0.5, fadeIn: 100 });
+  let [source] = context.sources;
+  let gain = source.connections[0];
+  expect(source.buffer).toMatchObject({ length: 400, sampleRate: 1000 });
+  expect(source.loop).toBe(true);
+  expect(gain.gain?.value).toBe(0);
+  expect(musicRow()).toBe(0);
+
+  // Fades follow the game's time
+  step(50);
+  expect(gain.gain?.value).toBe(0.25);
+  step(50);
+  expect(gain.gain?.value).toBe(0.5);
+
+  // Rows follow the audio clock
+  expect(musicRow()).toBe(0);
+  context.currentTime = 0.1;
+  expect(musicRow()).toBe(1);
+  context.currentTime = 0.4;
+  expect(musicRow()).toBe(0);
+
+  // Fades without a duration change the volume immediately
+  fadeMusic(0.75, 0);
+  expect(gain.gain?.value).toBe(0.75);
+  step(100);
+  expect(gain.gain?.value).toBe(0.75);
+
+  // Songs are only rendered once
+  playMusic(song);
+  expect(source.stop).toHaveBeenCalled();
+  expect(context.sources[1].buffer).toBe(source.buffer);
+  expect(musicRow()).toBe(0);
+
+  stopMusic(100);
+  step(100);
+  expect(context.sources[1].stop).toHaveBeenCalled();
+  expect(musicRow()).toBe(undefined);
+
+  // Songs that don't loop end with the audio clock
+  playMusic(song, { loop: false });
+  context.currentTime += 0.4;
+  step();
+  expect(musicRow()).toBe(undefined);
+
+  // Songs without rows can't be played, because they have no duration
+  expect(() => playMusic({ ...song, channels: [] })).toThrow(/no rows/);
+  expect(musicRow()).toBe(undefined);
+
+  // Songs that don't loop are skipped while audio is suspended
+  context.state = "suspended";
+  playMusic(song, { loop: false });
+  expect(context.sources).toHaveLength(3);
+  expect(musicRow()).toBe(undefined);
+  step(100);
+  fadeMusic(0, 0);
+  stopMusic(0);
+});
+
+test("scenes", async () => {
+  let log: string[] = [];
+  let createScene = (name: string, overlay = false): Scene => ({
+    overlay,
+    enter: () => log.push(`enter ${name}`),
+    exit: () => log.push(`exit ${name}`),
+    update: () => log.push(`update ${name}`),
+    draw: () => log.push(`draw ${name}`),
+  });
+
+  let menu = createScene("menu");
+  let level = createScene("level");
+  let pause = createScene("pause", true);
+
+  await start({ headless: true, scene: menu });
+  expect(currentScene()).toBe(menu);
+  step();
+  expect(log).toEqual(["enter menu", "update menu", "draw menu"]);
+
+  // Only the top scene updates, but overlays draw the scene below them
+  log = [];
+  replaceScene(level);
+  pushScene(pause);
+  step();
+  expect(log).toEqual(["exit menu", "enter level", "enter pause", "update pause", "draw level", "draw pause"]);
+
+  log = [];
+  popScene();
+  step();
+  expect(log).toEqual(["exit pause", "update level", "draw level"]);
+});
+
+test("scene transitions", async () => {
+  await start({ headless: true });
+  let fillRect = vi.spyOn(ctx, "fillRect");
+  let flush = () => new Promise(resolve => setTimeout(resolve));
+  let scene: Scene = {};
+
+  let done = pushScene(scene, { type: "wipe", duration: 200 });
+  step(50);
+  step(50);
+  expect(currentScene()).toBe(undefined);
+  expect(fillRect.mock.calls).toEqual([[0, 0, 0, 180], [0, 0, 160, 180]]);
+
+  // The scene changes when the screen is covered, then it's uncovered
+  await flush();
+  expect(currentScene()).toBe(scene);
+  fillRect.mockClear();
+  step(50);
+  step(50);
+  await done;
+  expect(fillRect.mock.calls).toEqual([[0, 0, 320, 180], [160, 0, 160, 180]]);
+
+  fillRect.mockClear();
+  step(50);
+  expect(fillRect).not.toHaveBeenCalled();
+
+  vi.restoreAllMocks();
+});
+
+test("overlapping scene transitions", async () => {
+  let log: string[] = [];
+  let createScene = (name: string): Scene => ({
+    enter: () => log.push(`enter ${name}`),
+    update: () => log.push(`update ${name}`),
+  });
+
+  let menu = createScene("menu");
+  let level = createScene("level");
+  let pause = createScene("pause");
+  await start({ headless: true, scene: menu });
+  let flush = () => new Promise(resolve => setTimeout(resolve));
+
+  // The outgoing scene isn't updated while the screen is covered
+  log = [];
+  let first = replaceScene(level, { type: "fade", duration: 200 });
+  let second = pushScene(pause, { type: "fade", duration: 200 });
+  step(100);
+  expect(log).toEqual([]);
+
+  // The second change waits for the first one to finish
+  await flush();
+  expect(log).toEqual(["enter level"]);
+  step(100);
+  await first;
+  expect(currentScene()).toBe(level);
+  step(100);
+  await flush();
+  expect(log).toEqual(["enter level", "update level", "enter pause"]);
+  step(100);
+  await second;
+  expect(currentScene()).toBe(pause);
+
+  // Changes without transitions are still immediate
+  popScene();
+  expect(currentScene()).toBe(level);
+});
+
+test("entities", async () => {
+  await start({ headless: true });
+  let flush = () => new Promise(resolve => setTimeout(resolve));
+  let world = createWorld();
+  let log: string[] = [];
+
+  let createEntity = (name: string, y: number, props: Partial<Entity> = {}): Entity => ({
+    x: 0,
+    y,
+    tags: [name],
+    update: () => log.push(`update ${name}`),
+    draw: () => log.push(`draw ${name}`),
+    removed: () => log.push(`removed ${name}`),
+    ...props,
+  });
+
+  let c = createEntity("c", 0, { depth: 1 });
+  let b = createEntity("b", 5);
+  let a = addEntity(world, createEntity("a", 10, {
+    update() {
+      log.push("update a");
+      removeEntity(world, b);
+      addEntity(world, c);
+    },
+  }));
+  addEntity(world, b);
+
+  // Removed entities aren't updated, and added entities wait for the next update
+  step(10);
+  expect(log).toEqual(["update a", "removed b"]);
+  expect(world.entities).toEqual([a, c]);
+
+  log = [];
+  addEntity(world, b);
+  drawWorld(world);
+  expect(log).toEqual(["draw b", "draw a", "draw c"]);
+
+  expect(findEntities(world, "b")).toEqual([b]);
+  expect(findEntities(world, entity => entity.y > 0)).toEqual([a, b]);
+
+  // Removing an entity cancels its timers and the tweens that it owns, but
+  // not tweens for objects that it only refers to
+  let fired = { a: false, b: false, target: false };
+  let scale = { x: 1, y: 1 };
+  Object.assign(a, { scale, target: b });
+  delay(10, a).then(() => fired.a = true);
+  delay(10, b).then(() => fired.b = true);
+  tween(a, { x: 100 }, 100);
+  tween(scale, { x: 2 }, 100, easeLinear, undefined, a);
+  tween(b, { x: 10 }, 50).then(() => fired.target = true);
+  removeEntity(world, a);
+  step(50);
+  await flush();
+  expect(fired).toEqual({ a: false, b: true, target: true });
+  expect(a.x).toBe(0);
+  expect(scale.x).toBe(1);
+  expect(b.x).toBe(10);
+
+  world.paused = true;
+  log = [];
+  step(10);
+  expect(log).toEqual([]);
+
+  // Entities don't belong to worlds from before a reset
+  _reset();
+  addEntity(createWorld(), b);
+  expect(log).toEqual([]);
+});
+
 test("tweens", async () => {
   await start();
   let object = { a: 0 };
@@ -310,3 +1517,81 @@ test("delay", async () => {
   await frame(50);
   expect(callback).toHaveBeenCalledTimes(1);
 });
+
+let walkCycle: AnimatedSprite = {
+  url: "walk.png",
+  x: 0,
+  y: 0,
+  w: 16,
+  h: 16,
+  frames: [
+    { x: 0, y: 0, w: 16, h: 16, duration: 100 },
+    { x: 16, y: 0, w: 16, h: 16, duration: 100 },
+    { x: 32, y: 0, w: 16, h: 16, duration: 200 },
+    { x: 48, y: 0, w: 16, h: 16, duration: 100 },
+  ],
+  tags: {
+    idle: { from: 0, to: 0 },
+    walk: { from: 1, to: 3, mode: "pingpong" },
+    back: { from: 1, to: 3, reverse: true },
+  },
+};
+
+test("animation", () => {
+  let player = animate(walkCycle);
+  expect(player.frame).toBe(0);
+  frame(50);
+  expect(player.frame).toBe(0);
+  frame(50);
+  expect(player.frame).toBe(1);
+  frame(300);
+  expect(player.frame).toBe(3);
+  frame(100);
+  expect(player.frame).toBe(0);
+});
+
+test("animation tags", () => {
+  let player = animate(walkCycle, "walk");
+  expect(player.frame).toBe(1);
+  frame(100);
+  expect(player.frame).toBe(2);
+  frame(200);
+  expect(player.frame).toBe(3);
+  frame(100);
+  expect(player.frame).toBe(2);
+  frame(200);
+  expect(player.frame).toBe(1);
+
+  play(player, "back");
+  expect(player.frame).toBe(3);
+  frame(100);
+  expect(player.frame).toBe(2);
+});
+
+test("animation modes", () => {
+  let player = animate(walkCycle, "walk", "once");
+  frame(1000);
+  expect(player.frame).toBe(3);
+  expect(player.done).toBe(true);
+
+  // Playing the same tag again restarts a finished animation
+  play(player, "walk", "once");
+  expect(player.frame).toBe(1);
+  expect(player.done).toBe(false);
+});
+
+test("paused and stopped animations", () => {
+  let player = animate(walkCycle);
+  player.paused = true;
+  frame(100);
+  expect(player.frame).toBe(0);
+
+  player.paused = false;
+  player.speed = 2;
+  frame(50);
+  expect(player.frame).toBe(1);
+
+  stopAnimation(player);
+  frame(1000);
+  expect(player.frame).toBe(1);
+});
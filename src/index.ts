@@ -1,5 +1,17 @@
 import { defaultFont } from "./font";
-import { assert, clamp, getKey, lineToPoints, TextureCache } from "./utils";
+import { assert, clamp, createCanvasElement, createImageElement, getKey, isColor, lineToPoints, LRUCache, TextureCache } from "./utils";
+import type { CanvasFactory, ImageFactory } from "./utils";
+import { getLayer, _chunkRevision } from "./tilemap";
+import type { TileLayer, Tilemap } from "./tilemap";
+import { renderSong, songDuration, songRowDuration, songRows } from "./music";
+import type { Song } from "./music";
+
+export * from "./tilemap";
+export * from "./bmfont";
+export * from "./synth";
+export * from "./music";
+export * from "./collision";
+export * from "./physics";
 
 /**
  * Utils.
@@ -63,6 +75,149 @@ export interface PivotSprite extends Sprite {
   pivot: Point;
 }
 
+/**
+ * Playback modes for animations.
+ *
+ * - `"loop"` restarts from the first frame after the last frame.
+ * - `"pingpong"` alternates between playing forwards and backwards.
+ * - `"once"` stops on the last frame.
+ */
+export type AnimationMode = "loop" | "pingpong" | "once";
+
+/**
+ * A single frame within an animated sprite's image.
+ */
+export interface AnimationFrame extends Rectangle {
+  /**
+   * How long this frame should be displayed for (in milliseconds).
+   */
+  duration: number;
+}
+
+/**
+ * A named range of frames within an animated sprite, as defined by
+ * Aseprite's tags.
+ */
+export interface AnimationTag {
+  /**
+   * Index of the first frame in this tag.
+   */
+  from: number;
+  /**
+   * Index of the last frame in this tag (inclusive).
+   */
+  to: number;
+  /**
+   * The default playback mode for this tag (defaults to `"loop"`).
+   */
+  mode?: AnimationMode;
+  /**
+   * Whether the frames in this tag play from last to first.
+   */
+  reverse?: boolean;
+}
+
+/**
+ * A sprite with multiple frames. The sprite's own rectangle is the first
+ * frame, so animated sprites can also be drawn as static sprites.
+ *
+ * Sprites of this format are generated by the Aseprite extension in this
+ * repo for slices in files with more than one frame.
+ */
+export interface AnimatedSprite extends Sprite {
+  /**
+   * The frames of the animation, in order.
+   */
+  frames: AnimationFrame[];
+  /**
+   * Named ranges of frames.
+   */
+  tags: Record<string, AnimationTag>;
+}
+
+/**
+ * The playback state for an animated sprite, created by {@link animate}.
+ */
+export interface AnimationPlayer {
+  /**
+   * The sprite that is being animated.
+   */
+  sprite: AnimatedSprite;
+  /**
+   * The name of the tag that is playing, or undefined if the player is
+   * playing all frames.
+   */
+  tag: string | undefined;
+  /**
+   * The playback mode.
+   */
+  mode: AnimationMode;
+  /**
+   * Index of the current frame in the sprite's frames.
+   */
+  frame: number;
+  /**
+   * The number of milliseconds that the current frame has been shown for.
+   */
+  elapsed: number;
+  /**
+   * Playback speed multiplier (defaults to 1).
+   */
+  speed: number;
+  /**
+   * Paused players keep their current frame until they are unpaused.
+   */
+  paused: boolean;
+  /**
+   * Whether a player in `"once"` mode has reached its final frame.
+   */
+  done: boolean;
+  /**
+   * The direction that frames are advancing in (1 is forwards, -1 is
+   * backwards).
+   */
+  direction: 1 | -1;
+}
+
+/**
+ * Options for drawing a sprite with {@link draw}.
+ */
+export interface DrawOptions {
+  /**
+   * Width to draw the sprite at (defaults to the sprite's width).
+   */
+  w?: number;
+  /**
+   * Height to draw the sprite at (defaults to the sprite's height).
+   */
+  h?: number;
+  /**
+   * Mirror the sprite horizontally.
+   */
+  flipX?: boolean;
+  /**
+   * Mirror the sprite vertically.
+   */
+  flipY?: boolean;
+  /**
+   * Clockwise rotation in radians. Multiples of 90° are drawn pixel exact.
+   */
+  rotation?: number;
+  /**
+   * Opacity between 0 and 1, multiplied with the current global alpha.
+   */
+  alpha?: number;
+  /**
+   * The origin for positioning, flipping and rotating, in sprite pixels.
+   *
+   * When `true` (the default) the sprite's own pivot is used if it has one.
+   * The sprite is positioned so that the origin is drawn at `x, y`. Sprites
+   * without an origin are positioned by their top left corner and transformed
+   * around their center.
+   */
+  pivot?: Point | boolean;
+}
+
 /**
  * A keyed collection of sprites.
  */
@@ -102,6 +257,91 @@ export interface Font {
    * Fonts that are already colored should set this value to Infinity.
    */
   precoloredGlyphs?: number;
+  /**
+   * The number of glyphs in each row of the font's images (defaults to 16).
+   */
+  columns?: number;
+  /**
+   * The number of rows of glyphs in each page. Only needed for fonts with
+   * more than one page.
+   */
+  rows?: number;
+  /**
+   * Urls of the images for any pages after the first. Glyphs are numbered
+   * from the start of the first page (`url`) through to the end of the last.
+   */
+  pages?: string[];
+  /**
+   * The characters in the font, in the order that their glyphs appear.
+   * Characters can also be mapped to glyph numbers individually.
+   *
+   * Fonts without a glyph map or ranges use each character's code point as
+   * its glyph number.
+   */
+  glyphs?: string | Record<string, number>;
+  /**
+   * Ranges of code points that are mapped to consecutive glyphs.
+   */
+  ranges?: GlyphRange[];
+  /**
+   * Positions and metrics for each character, for fonts that aren't laid out
+   * on a grid (see {@link parseBMFont}). Characters without an entry are
+   * skipped.
+   */
+  chars?: Record<string, FontChar>;
+  /**
+   * Adjustments to the advance between pairs of characters, keyed by the pair
+   * (e.g. `"AV"`).
+   */
+  kerning?: Record<string, number>;
+  /**
+   * Extra space between each pair of glyphs, in pixels. Can be negative.
+   */
+  letterSpacing?: number;
+  /**
+   * Extra space between lines, in pixels. Can be negative.
+   */
+  lineSpacing?: number;
+}
+
+/**
+ * A character in a font that isn't laid out on a grid.
+ */
+export interface FontChar extends Rectangle {
+  /**
+   * The index of the page that the character is on (0 is the font's `url`).
+   */
+  page: number;
+  /**
+   * Horizontal offset from the cursor to draw the character at.
+   */
+  offsetX: number;
+  /**
+   * Vertical offset from the top of the line to draw the character at.
+   */
+  offsetY: number;
+  /**
+   * How far to move the cursor after this character.
+   */
+  advance: number;
+}
+
+/**
+ * A range of code points that are mapped to consecutive glyphs in a font.
+ */
+export interface GlyphRange {
+  /**
+   * The first code point in the range.
+   */
+  from: number;
+  /**
+   * The last code point in the range (inclusive).
+   */
+  to: number;
+  /**
+   * The glyph number for the first code point.
+   */
+  glyph: number;
 }
 
 /**
@@ -110,6 +350,53 @@ export interface Font {
  */
 export type Fill = string | CanvasGradient | CanvasPattern;
 
+/**
+ * Options for laying out text with {@link write} and {@link measure}.
+ */
+export interface TextOptions {
+  /**
+   * The font to use (defaults to the current font).
+   */
+  font?: Font;
+  /**
+   * The text color/fill (defaults to the current color).
+   */
+  color?: Fill;
+  /**
+   * The text shadow color (defaults to the current shadow color).
+   */
+  shadow?: Fill;
+  /**
+   * Lines that are wider than this are wrapped at word boundaries. Words
+   * that are wider than this by themselves are broken between characters.
+   */
+  maxWidth?: number;
+  /**
+   * The height of the box that the text is vertically aligned inside.
+   */
+  height?: number;
+  /**
+   * Horizontal alignment for each line. Lines are aligned inside `maxWidth`
+   * if it is set, otherwise they are aligned with the widest line.
+   */
+  align?: "left" | "center" | "right";
+  /**
+   * Vertical alignment for the text inside `height`.
+   */
+  valign?: "top" | "middle" | "bottom";
+  /**
+   * Whether to parse markup in the text (defaults to true). See
+   * {@link write} for the syntax.
+   */
+  markup?: boolean;
+  /**
+   * Whether to cache the rendered text, so that writing it again only needs
+   * to draw a single image (defaults to true). Text that changes on every
+   * frame may be faster without caching.
+   */
+  cache?: boolean;
+}
+
 /**
  * The current drawing state of the engine. This is like an engine specific
  * version of a canvas context, that can be saved/restored on a stack in the
@@ -125,11 +412,11 @@ interface DrawState {
    */
   y: number;
   /**
-   * The width of the current view rect.
+   * The width of the current view rect (in screen pixels).
    */
   w: number;
   /**
-   * The height of the current view rect.
+   * The height of the current view rect (in screen pixels).
    */
   h: number;
   /**
@@ -152,14 +439,130 @@ interface DrawState {
    * The current text shadow color.
    */
   textShadowColor: Fill | undefined;
+  /**
+   * The scale of the current view, relative to the canvas. This is only
+   * changed by cameras with a zoom factor.
+   */
+  scale: number;
+}
+
+/**
+ * An object in a {@link World}. Entities can have any other properties that
+ * the game needs.
+ */
+export interface Entity extends Point {
+  /**
+   * Entities are drawn in order of depth, then from top to bottom (defaults
+   * to 0).
+   */
+  depth?: number;
+  /**
+   * Tags for finding entities with {@link findEntities}.
+   */
+  tags?: string[];
+  /**
+   * Called once per update, while the entity's world isn't paused.
+   */
+  update?(): void;
+  /**
+   * Called when the entity's world is drawn with {@link drawWorld}.
+   */
+  draw?(): void;
+  /**
+   * Called when the entity is added to a world.
+   */
+  added?(): void;
+  /**
+   * Called when the entity is removed from a world.
+   */
+  removed?(): void;
+}
+
+/**
+ * A container for entities, created with {@link createWorld}.
+ */
+export interface World {
+  /**
+   * The entities in the world, in the order that they were added.
+   */
+  entities: Entity[];
+  /**
+   * Paused worlds aren't updated, but can still be drawn.
+   */
+  paused: boolean;
+}
+
+/**
+ * A camera that looks at a position in the world. Cameras are created with
+ * {@link createCamera} and drawn through with {@link camera}.
+ */
+export interface Camera {
+  /**
+   * The x coordinate (in world space) at the center of the camera's viewport.
+   */
+  x: number;
+  /**
+   * The y coordinate (in world space) at the center of the camera's viewport.
+   */
+  y: number;
+  /**
+   * The width of the camera's viewport (in screen pixels).
+   */
+  w: number;
+  /**
+   * The height of the camera's viewport (in screen pixels).
+   */
+  h: number;
+  /**
+   * Integer zoom factor. A zoom of 2 draws every world pixel as 2x2 screen
+   * pixels.
+   */
+  zoom: number;
+  /**
+   * The point that the camera is following, if there is one.
+   */
+  target: Point | undefined;
+  /**
+   * The size of the region (in world space) around the center of the
+   * viewport that the target can move inside without moving the camera.
+   */
+  deadzone: { w: number; h: number };
+  /**
+   * How smoothly the camera follows its target, from 0 (snaps to the target)
+   * to 1 (never moves). This is the fraction of the remaining distance that
+   * is left after each 60th of a second.
+   */
+  smoothing: number;
+  /**
+   * The region of the world (in world space) that the camera's viewport
+   * should stay inside, if there is one.
+   */
+  bounds: Rectangle | undefined;
+  /**
+   * The max distance (in screen pixels) of the current screen shake.
+   */
+  shakeIntensity: number;
+  /**
+   * The total length of the current screen shake (in milliseconds).
+   */
+  shakeDuration: number;
+  /**
+   * The number of milliseconds that the current screen shake has run for.
+   */
+  shakeElapsed: number;
+  /**
+   * The current screen shake offset (in screen pixels).
+   */
+  offset: Point;
 }
 
 /**
  * A button is either a string representing a key name from a KeyboardEvent
- * (for example `"Enter"`) or the index of a button from a PointerEvent (for
- * example, `0` is a left click/tap).
+ * (for example `"Enter"`), the index of a button from a PointerEvent (for
+ * example, `0` is a left click/tap), or the name of a gamepad button.
  *
  * @see {@link Buttons} for an enum of mouse buttons
+ * @see {@link GamepadButtons} for an enum of gamepad buttons
  */
 type Button =
   // A key name from a keyboard event
@@ -178,6 +581,121 @@ export enum Buttons {
   MouseForward = 4,
 }
 
+/**
+ * Enumeration of gamepad buttons, named after their positions in the
+ * [standard gamepad layout](https://w3c.github.io/gamepad/#remapping).
+ */
+export enum GamepadButtons {
+  A = "GamepadA",
+  B = "GamepadB",
+  X = "GamepadX",
+  Y = "GamepadY",
+  LeftBumper = "GamepadLeftBumper",
+  RightBumper = "GamepadRightBumper",
+  LeftTrigger = "GamepadLeftTrigger",
+  RightTrigger = "GamepadRightTrigger",
+  Select = "GamepadSelect",
+  Start = "GamepadStart",
+  LeftStick = "GamepadLeftStick",
+  RightStick = "GamepadRightStick",
+  Up = "GamepadUp",
+  Down = "GamepadDown",
+  Left = "GamepadLeft",
+  Right = "GamepadRight",
+  Home = "GamepadHome",
+}
+
+/**
+ * Enumeration of analog gamepad axes.
+ */
+export enum GamepadAxes {
+  LeftX = 0,
+  LeftY = 1,
+  RightX = 2,
+  RightY = 3,
+  LeftTrigger = 4,
+  RightTrigger = 5,
+}
+
+/**
+ * The input state for a single frame of an {@link InputRecording}. Field
+ * names are kept short and fields are omitted when they are empty or
+ * unchanged from the previous frame, to keep recordings compact.
+ */
+export interface RecordedFrame {
+  /**
+   * The time delta for this frame (in milliseconds).
+   */
+  t: number;
+  /**
+   * Buttons that were pressed during this frame.
+   */
+  p?: Button[];
+  /**
+   * Buttons that were released during this frame.
+   */
+  r?: Button[];
+  /**
+   * Buttons that are down, if they changed since the previous frame.
+   */
+  d?: Button[];
+  /**
+   * The pointer's position, if it changed since the previous frame. Unknown
+   * coordinates (NaN) are serialized as null.
+   */
+  m?: [number, number];
+  /**
+   * Values for the {@link GamepadAxes}, if they changed since the previous
+   * frame.
+   */
+  a?: number[];
+}
+
+/**
+ * A frame by frame log of input that can be serialized with `JSON.stringify`
+ * and replayed with {@link replay} or with the `replay` option for
+ * {@link start}.
+ */
+export interface InputRecording {
+  frames: RecordedFrame[];
+}
+
+/**
+ * Internal state for an in progress input recording.
+ */
+interface Recorder {
+  recording: InputRecording;
+  down: Button[];
+  pointer: [number, number];
+  axes: number[];
+}
+
+/**
+ * Internal state for an in progress replay.
+ */
+interface Replay {
+  recording: InputRecording;
+  index: number;
+}
+
+/**
+ * A drawing call that was recorded with {@link recordDraw}. Positions are
+ * global (relative to the canvas) and sizes are in the units of the view that
+ * the call was made in, which was scaled by `scale` (e.g. by a zoomed camera).
+ * Colors are resolved from the drawing state at the time of the call.
+ *
+ * Commands can be serialized with `JSON.stringify` (as long as their colors
+ * are CSS colors) and drawn again with {@link replayDraw}.
+ */
+export type DrawCommand =
+  | { type: "fillRect", x: number, y: number, w: number, h: number, scale: number, color: Fill }
+  | { type: "strokeRect", x: number, y: number, w: number, h: number, scale: number, color: Fill }
+  | { type: "line", x: number, y: number, x2: number, y2: number, scale: number, color: Fill }
+  | { type: "stamp", pattern: number, x: number, y: number, scale: number, color: Fill }
+  | { type: "draw", sprite: Sprite | PivotSprite, x: number, y: number, scale: number, options: DrawOptions }
+  | { type: "draw9Slice", sprite: NineSliceSprite, x: number, y: number, w: number, h: number, scale: number }
+  | { type: "write", text: string, x: number, y: number, scale: number, options: TextOptions };
+
 /**
  * Internal timer state used by {@see delay}.
  */
@@ -194,6 +712,10 @@ interface Timer {
    * The callback to call when the timer has finished.
    */
   done(): void;
+  /**
+   * The entity that the timer belongs to, if there is one.
+   */
+  owner?: Entity;
 }
 
 /**
@@ -223,123 +745,656 @@ interface Tween {
   easing: Easing;
   callback(t: number): void;
   done(): void;
+  /**
+   * The entity that the tween belongs to, if there is one.
+   */
+  owner?: Entity;
 }
 
 /**
- * Settings that can be passed when starting a new game.
+ * Options for playing a sound with {@link playSound}.
  */
-interface Config {
+export interface SoundOptions {
   /**
-   * Desired canvas width in pixels (defaults to 320).
+   * The volume of the sound, from 0 to 1 (defaults to 1).
    */
-  width?: number;
+  volume?: number;
   /**
-   * Desired canvas height in pixels (defaults to 180).
+   * The playback rate of the sound (defaults to 1). Higher values play the
+   * sound faster and at a higher pitch.
    */
-  height?: number;
+  pitch?: number;
   /**
-   * The bitmap font to use for rendering text.
+   * Stereo panning from -1 (left) to 1 (right) (defaults to 0).
    */
-  font?: Font;
+  pan?: number;
   /**
-   * The max scaling factor for the canvas when attempting to fill the window.
+   * Whether to loop the sound until it is stopped (defaults to false).
    */
-  maxCanvasScale?: number;
+  loop?: boolean;
   /**
-   * A callback function that will be run once per frame.
+   * The channel to play the sound through (defaults to "sfx"). Each
+   * channel's volume can be set with {@link setVolume}.
    */
-  loop?(): void;
+  channel?: string;
 }
 
 /**
- * Rendering canvas.
+ * A sound that was started with {@link playSound}.
  */
-export let canvas = document.createElement("canvas");
-
-/**
- * Rendering context.
+export interface PlayingSound {
+  /**
+   * The node that is playing the sound's buffer.
+   */
+  source: AudioBufferSourceNode;
+  /**
+   * The node that controls the sound's volume.
+   */
+  gain: GainNode;
+  /**
+   * The channel that the sound is playing through.
+   */
+  channel: string;
+  /**
+   * False once the sound has ended or been stopped.
+   */
+  playing: boolean;
+}
+
+/**
+ * Options for playing a song with {@link playMusic}.
+ */
+export interface MusicOptions {
+  /**
+   * The volume of the song, from 0 to 1 (defaults to 1).
+   */
+  volume?: number;
+  /**
+   * Milliseconds to fade the song in over (defaults to 0).
+   */
+  fadeIn?: number;
+  /**
+   * Whether to loop the song (defaults to true).
+   */
+  loop?: boolean;
+}
+
+/**
+ * Internal state for the song that is playing.
  */
-export let ctx = canvas.getContext("2d")!;
+interface Music {
+  song: Song;
+  sound: PlayingSound;
+  loop: boolean;
+  /**
+   * The audio context's time (in seconds) when the song started, so that
+   * rows stay in sync with what can be heard.
+   */
+  startTime: number;
+  /**
+   * The fade that is in progress, if there is one. Songs that fade out to
+   * stop are stopped when the fade finishes.
+   */
+  fade: { from: number, to: number, elapsed: number, duration: number, stop: boolean } | undefined;
+}
 
 /**
- * Time between the current frame and the previous frame (in milliseconds).
+ * The audio nodes for a game. Each channel is connected to the master gain,
+ * which is connected to the audio context's destination.
  */
-let _delta = 0;
+interface AudioGraph {
+  master: GainNode;
+  channels: Record<string, GainNode>;
+  sounds: Set<PlayingSound>;
+}
 
 /**
- * Cache of image objects by urls. Allows code that works with image urls
- * to retrieve the underlying image synchronously.
+ * A screen in the game, like a menu, a level or a pause screen. Scenes are
+ * kept on a stack and only the top scene is updated. See
+ * {@link pushScene}.
  */
-let _images: Record<string, HTMLImageElement> = {};
+export interface Scene {
+  /**
+   * Called when the scene is added to the stack.
+   */
+  enter?(): void;
+  /**
+   * Called when the scene is removed from the stack.
+   */
+  exit?(): void;
+  /**
+   * Called once per update while this is the top scene. In fixed timestep
+   * mode, this is called at the fixed rate.
+   */
+  update?(): void;
+  /**
+   * Called once per frame while the scene is visible.
+   */
+  draw?(): void;
+  /**
+   * Whether the scene below this one is drawn first (defaults to false).
+   * Useful for pause menus and dialogs that only cover part of the screen.
+   */
+  overlay?: boolean;
+}
 
 /**
- * List of promises representing assets that need to be resolved before the
- * game can start.
+ * Settings for a transition between scenes. The screen is covered for the
+ * first half of the transition, then the scenes change, then the screen is
+ * uncovered.
  */
-let _assets: Promise<any>[] = [];
+export interface SceneTransition {
+  /**
+   * "fade" fades the screen to a color and back, and "wipe" covers the
+   * screen from left to right and uncovers it in the same direction.
+   */
+  type: "fade" | "wipe";
+  /**
+   * The length of the whole transition in milliseconds (defaults to 500).
+   */
+  duration?: number;
+  /**
+   * The color that covers the screen (defaults to black).
+   */
+  color?: Fill;
+  /**
+   * The easing for each half of the transition.
+   */
+  easing?: Easing;
+}
 
 /**
- * List of currently active timers.
+ * Internal state for a transition that is in progress.
  */
-let _timers: Timer[] = [];
+interface ActiveTransition {
+  type: SceneTransition["type"];
+  color: Fill;
+  /**
+   * How much of the screen is covered, from 0 to 1.
+   */
+  progress: number;
+  /**
+   * Whether the screen is being covered (rather than uncovered).
+   */
+  covering: boolean;
+}
 
 /**
- * List of currently active tweens.
+ * Settings that can be passed when starting a new game.
  */
-let _tweens: Tween[] = [];
+interface Config {
+  /**
+   * Desired canvas width in pixels (defaults to 320).
+   */
+  width?: number;
+  /**
+   * Desired canvas height in pixels (defaults to 180).
+   */
+  height?: number;
+  /**
+   * The bitmap font to use for rendering text.
+   */
+  font?: Font;
+  /**
+   * The max scaling factor for the canvas when attempting to fill the window.
+   */
+  maxCanvasScale?: number;
+  /**
+   * The size of the deadzone for analog gamepad sticks and triggers, from 0
+   * to 1 (defaults to 0.15). A deadzone of 1 ignores analog input.
+   */
+  deadzone?: number;
+  /**
+   * An input recording to replay instead of listening for live input. The
+   * loop stops when the recording runs out of frames.
+   */
+  replay?: InputRecording;
+  /**
+   * Run without a window. Headless games don't listen for input events,
+   * don't resize to fit the window, and don't run an animation frame loop.
+   * Use {@link step} to advance frames instead.
+   */
+  headless?: boolean;
+  /**
+   * The canvas to render to, instead of the default {@link canvas}. This can
+   * be a canvas from node-canvas, or an OffscreenCanvas.
+   */
+  canvas?: HTMLCanvasElement;
+  /**
+   * Creates the canvases that the engine uses internally for caching, and
+   * the game's canvas if the `canvas` option isn't set. This can be
+   * overridden to create canvases with node-canvas or OffscreenCanvas in
+   * environments where the DOM isn't available.
+   */
+  createCanvas?: CanvasFactory;
+  /**
+   * Creates the images that sprites and fonts are loaded into. This can be
+   * overridden to load images with node-canvas (e.g. `() => new Image()`) in
+   * environments where the DOM isn't available.
+   */
+  createImage?: ImageFactory;
+  /**
+   * A callback function that will be run once per frame. Can't be used
+   * with `update` or `render`.
+   */
+  loop?(): void;
+  /**
+   * A callback function that will be run at a fixed rate (see
+   * {@link Config.updateRate}), independently of the frame rate. Use this
+   * instead of `loop` for logic that should not depend on the frame rate,
+   * such as physics.
+   */
+  update?(): void;
+  /**
+   * A callback function that will be run once per frame, after any fixed
+   * updates. The `alpha` parameter is how far (from 0 to 1) the game is
+   * between the previous update and the next one, which can be used to
+   * interpolate positions for smooth rendering.
+   */
+  render?(alpha: number): void;
+  /**
+   * A scene to push onto the scene stack when the game starts. Scenes are
+   * updated and drawn after the callbacks above.
+   */
+  scene?: Scene;
+  /**
+   * The number of times per second that `update` will be called (defaults
+   * to 60).
+   */
+  updateRate?: number;
+  /**
+   * The maximum number of updates that can run in a single frame (defaults
+   * to 5). If the game falls further behind than this, then the extra time
+   * is dropped, rather than letting each slow frame make the next one
+   * slower.
+   */
+  maxUpdatesPerFrame?: number;
+  /**
+   * The max number of rendered strings of text to cache (defaults to 256).
+   * The least recently written text is evicted when the cache is full.
+   */
+  textCacheSize?: number;
+}
 
 /**
- * Handle for the current animation frame for the game's loop. Cancelling this
- * animation frame will stop the game.
+ * The internal state for a single game. Each game that is created with
+ * {@link createGame} owns one of these, and the free functions in this module
+ * operate on the state of the current game (see {@link _game}).
  */
-let _animationFrame: number;
+interface GameState {
+  /**
+   * Rendering canvas.
+   */
+  canvas: HTMLCanvasElement;
+  /**
+   * Rendering context.
+   */
+  ctx: CanvasRenderingContext2D;
+  /**
+   * The config that the game was created with. Options that are passed to
+   * {@link start} are merged over these.
+   */
+  config: Config;
+  /**
+   * Time between the current frame and the previous frame (in milliseconds).
+   */
+  delta: number;
+  /**
+   * How far the game is between the previous fixed update and the next one.
+   */
+  alpha: number;
+  /**
+   * The callbacks that are called for each frame.
+   */
+  callbacks: Pick<Config, "loop" | "update" | "render">;
+  /**
+   * The scene stack. The last scene is the top scene.
+   */
+  scenes: Scene[];
+  /**
+   * The transition between scenes that is in progress, if there is one.
+   */
+  transition: ActiveTransition | undefined;
+  /**
+   * The last scene change that is waiting to finish, if there is one. Scene
+   * changes made during a transition wait for it to finish.
+   */
+  sceneChanges: Promise<void> | undefined;
+  /**
+   * The number of milliseconds between fixed updates.
+   */
+  fixedStep: number;
+  /**
+   * The max number of fixed updates that can run in a single frame.
+   */
+  maxUpdatesPerFrame: number;
+  /**
+   * Milliseconds of elapsed time that haven't been consumed by fixed updates.
+   */
+  accumulator: number;
+  /**
+   * Whether the game is running in headless mode.
+   */
+  headless: boolean;
+  /**
+   * Creates canvases for internal caches.
+   */
+  createCanvas: CanvasFactory;
+  /**
+   * Creates images for {@link imageByUrl}.
+   */
+  createImage: ImageFactory;
+  /**
+   * Cache of image objects by urls. Allows code that works with image urls
+   * to retrieve the underlying image synchronously.
+   */
+  images: Record<string, HTMLImageElement>;
+  /**
+   * Promises that resolve when each of the images has loaded, by url.
+   */
+  imageLoads: Record<string, Promise<void>>;
+  /**
+   * List of promises representing assets that need to be resolved before the
+   * game can start.
+   */
+  assets: Promise<any>[];
+  /**
+   * Decoded sounds by url. Every sound passed to {@link preload} will be
+   * available here when the game starts.
+   */
+  sounds: Record<string, AudioBuffer>;
+  /**
+   * The game's audio context. Browsers limit the number of contexts, so it
+   * isn't created until it's needed.
+   */
+  audioContext: AudioContext | undefined;
+  /**
+   * The game's audio nodes, which are created when the first sound is
+   * played.
+   */
+  audio: AudioGraph | undefined;
+  /**
+   * Rendered songs, so that songs only need to be rendered once. Songs that
+   * are changed after they are played need to be copied to render them
+   * again.
+   */
+  songs: WeakMap<Song, AudioBuffer>;
+  /**
+   * The song that is playing, if there is one.
+   */
+  music: Music | undefined;
+  /**
+   * The volume for each channel, by name. The master volume is stored as
+   * "master".
+   */
+  volumes: Record<string, number>;
+  /**
+   * The handle for this game, which is created by {@link createGame} (or by
+   * {@link currentGame} for the default game).
+   */
+  handle: Game | undefined;
+  /**
+   * List of currently active timers.
+   */
+  timers: Timer[];
+  /**
+   * List of currently active tweens.
+   */
+  tweens: Tween[];
+  /**
+   * List of currently active animation players.
+   */
+  animations: AnimationPlayer[];
+  /**
+   * List of cameras that are updated each frame.
+   */
+  cameras: Camera[];
+  /**
+   * List of worlds that are updated each frame.
+   */
+  worlds: World[];
+  /**
+   * The world that each entity belongs to.
+   */
+  entityWorlds: WeakMap<Entity, World>;
+  /**
+   * Handle for the current animation frame for the game's loop. Cancelling
+   * this animation frame will stop the game.
+   */
+  animationFrame: number;
+  /**
+   * Functions that remove the window event listeners that are bound to this
+   * game.
+   */
+  removeListeners: (() => void)[];
+  /**
+   * The pointer's current position relative to the canvas.
+   */
+  pointer: Point;
+  /**
+   * The set of buttons that are currently pressed down.
+   */
+  down: Set<Button>;
+  /**
+   * The set of buttons that were pressed during this frame.
+   */
+  pressed: Set<Button>;
+  /**
+   * The set of buttons that were released during this frame.
+   */
+  released: Set<Button>;
+  /**
+   * The current values of each of the {@link GamepadAxes}, with the deadzone
+   * already applied.
+   */
+  axes: number[];
+  /**
+   * The size of the deadzone for analog gamepad inputs.
+   */
+  deadzone: number;
+  /**
+   * Buttons that are bound to each named action.
+   */
+  bindings: Record<string, Button[]>;
+  /**
+   * The input recording that is currently in progress, if there is one.
+   */
+  recorder: Recorder | undefined;
+  /**
+   * The input recording that is currently being replayed, if there is one.
+   */
+  replay: Replay | undefined;
+  /**
+   * The draw commands for the current frame, if draw calls are being
+   * recorded.
+   */
+  drawCommands: DrawCommand[] | undefined;
+  /**
+   * The max scale factor that the canvas can use when attempting to fill the
+   * available screen space.
+   */
+  maxCanvasScale: number;
+  /**
+   * A stack of drawing states that can be modified with {@link save} and
+   * {@link restore}.
+   */
+  stack: DrawState[];
+  /**
+   * The current drawing state. See {@link DrawState} for more detail.
+   */
+  state: DrawState;
+  /**
+   * Cache of stamps we've already rendered before.
+   */
+  stampTextureCache: TextureCache;
+  /**
+   * Cache of text that we've already rendered before.
+   */
+  textTextureCache: TextureCache;
+  /**
+   * Rendered text in {@link textTextureCache}, by the text and the options
+   * that it was written with.
+   */
+  textCache: LRUCache<string, CachedText>;
+  /**
+   * A cache of recolored font images.
+   */
+  tintCanvasCache: Record<string, HTMLCanvasElement>;
+  /**
+   * Pre-rendered chunks for each tilemap that has been drawn.
+   */
+  tilemapCaches: WeakMap<Tilemap, TilemapCache>;
+}
 
 /**
- * The pointer's current position relative to the canvas.
+ * The pre-rendered chunks of a tilemap.
  */
-let _pointer: Point = { x: NaN, y: NaN };
+interface TilemapCache {
+  /**
+   * Texture that holds the rendered chunks. Empty chunks aren't stored.
+   */
+  texture: TextureCache;
+  /**
+   * The revision that each chunk was rendered at, by chunk key.
+   */
+  revisions: Record<string, number>;
+}
 
 /**
- * The set of buttons that are currently pressed down.
+ * Creates the initial state for a game.
  */
-let _down = new Set<Button>();
+function createGameState(config: Config = {}): GameState {
+  let {
+    createCanvas = createCanvasElement,
+    createImage = createImageElement,
+  } = config;
+
+  let canvas = config.canvas;
+  let ctx: CanvasRenderingContext2D | undefined;
+
+  return {
+    // The canvas isn't created until it's needed, so that games can be
+    // created without a DOM, then started with the `createCanvas` option.
+    get canvas() {
+      return canvas ||= this.createCanvas(300, 150);
+    },
+    set canvas(value) {
+      canvas = value;
+      ctx = undefined;
+    },
+    get ctx() {
+      return ctx ||= this.canvas.getContext("2d")!;
+    },
+    set ctx(value) {
+      ctx = value;
+    },
+    config,
+    delta: 0,
+    alpha: 0,
+    callbacks: {},
+    scenes: [],
+    transition: undefined,
+    sceneChanges: undefined,
+    fixedStep: 1000 / 60,
+    maxUpdatesPerFrame: 5,
+    accumulator: 0,
+    headless: false,
+    createCanvas,
+    createImage,
+    images: {},
+    imageLoads: {},
+    assets: [],
+    sounds: {},
+    audioContext: undefined,
+    audio: undefined,
+    songs: new WeakMap(),
+    music: undefined,
+    volumes: {},
+    handle: undefined,
+    timers: [],
+    tweens: [],
+    animations: [],
+    cameras: [],
+    worlds: [],
+    entityWorlds: new WeakMap(),
+    animationFrame: 0,
+    removeListeners: [],
+    pointer: { x: NaN, y: NaN },
+    down: new Set(),
+    pressed: new Set(),
+    released: new Set(),
+    axes: [0, 0, 0, 0, 0, 0],
+    deadzone: 0.15,
+    bindings: {},
+    recorder: undefined,
+    replay: undefined,
+    drawCommands: undefined,
+    maxCanvasScale: Infinity,
+    stack: [],
+    state: {
+      x: 0,
+      y: 0,
+      w: Infinity,
+      h: Infinity,
+      color: "black",
+      textX: 0,
+      textY: 0,
+      textShadowColor: undefined,
+      font: defaultFont,
+      scale: 1,
+    },
+    stampTextureCache: new TextureCache(createCanvas),
+    textTextureCache: createTextTexture(createCanvas),
+    textCache: createTextCache(256),
+    tintCanvasCache: {},
+    tilemapCaches: new WeakMap(),
+  };
+}
 
 /**
- * The set of buttons that were pressed during this frame.
+ * The state of the default game, which is used by the free functions in this
+ * module whenever another game isn't running.
  */
-let _pressed = new Set<Button>();
+let _defaultGame = createGameState();
 
 /**
- * The set of buttons that were released during this frame.
+ * The state of the current game. This is the default game, except while a
+ * game that was created with {@link createGame} is running one of its
+ * methods or callbacks.
  */
-let _released = new Set<Button>();
+let _game = _defaultGame;
 
 /**
- * The max scale factor that the canvas can use when attempting to fill the
- * available screen space.
+ * Rendering canvas for the default game. Without a DOM, this is undefined
+ * until the game is started (see {@link Config.createCanvas}).
  */
-let _maxCanvasScale = Infinity;
+export let canvas: HTMLCanvasElement;
 
 /**
- * A stack of drawing states that can be modified with {@link save} and
- * {@link restore}.
+ * Rendering context for the default game.
  */
-let _stack: DrawState[] = [];
+export let ctx: CanvasRenderingContext2D;
+
+if (typeof document !== "undefined") {
+  canvas = _defaultGame.canvas;
+  ctx = _defaultGame.ctx;
+}
 
 /**
- * The current drawing state. See {@link DrawState} for more detail.
+ * Runs a function with a given game as the current game. The game is only
+ * current until the function returns, so code that runs after an `await`
+ * inside the function runs with the default game (see {@link currentGame}).
  */
-let _state: DrawState = {
-  x: 0,
-  y: 0,
-  w: Infinity,
-  h: Infinity,
-  color: "black",
-  textX: 0,
-  textY: 0,
-  textShadowColor: undefined,
-  font: defaultFont,
-};
+function withGame<T>(game: GameState, fn: () => T): T {
+  let previous = _game;
+  _game = game;
+
+  try {
+    return fn();
+  } finally {
+    _game = previous;
+  }
+}
 
 /**
  * ------
@@ -352,8 +1407,22 @@ let _state: DrawState = {
  * will be available here when the game starts.
  */
 function imageByUrl(url: string): HTMLImageElement {
-  let img = _images[url] ||= new Image();
-  img.src ||= url;
+  let img = _game.images[url];
+
+  if (img == null) {
+    img = _game.images[url] = _game.createImage();
+
+    let loaded = new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error(`Could not load image: ${url}`));
+    });
+
+    // Only images that were preloaded need to report errors
+    loaded.catch(() => {});
+    _game.imageLoads[url] = loaded;
+    img.src = url;
+  }
+
   return img;
 }
 
@@ -368,7 +1437,8 @@ export function preload(sprites: SpriteSheet): void;
 export function preload(font: Font): void;
 
 /**
- * Preload an arbitrary image url before starting the game.
+ * Preload an arbitrary image url before starting the game. Urls for sounds
+ * (.wav, .mp3, .ogg, etc) are decoded as sounds instead.
  */
 export function preload(url: string): void;
 
@@ -384,6 +1454,7 @@ export function preload(resource: SpriteSheet | Font | string | Promise<any>): v
     "glyphWidth" in resource &&
     "glyphHeight" in resource
   ) {
+    for (let page of (resource as Font).pages || []) preload(page);
     resource = (resource as Font).url;
   }
 
@@ -393,16 +1464,18 @@ export function preload(resource: SpriteSheet | Font | string | Promise<any>): v
     resource = resource[keys[0]].url;
   }
 
+  // Handle sound urls
+  if (typeof resource === "string" && isSoundUrl(resource)) {
+    resource = loadSound(resource);
+  }
+
   // Handle image urls
   if (typeof resource === "string") {
-    let img = imageByUrl(resource);
-    resource = new Promise((resolve, reject) => {
-      img.addEventListener("load", resolve);
-      img.addEventListener("error", reject);
-    });
+    imageByUrl(resource);
+    resource = _game.imageLoads[resource];
   }
 
-  _assets.push(resource as Promise<any>);
+  _game.assets.push(resource as Promise<any>);
 }
 
 /**
@@ -410,7 +1483,7 @@ export function preload(resource: SpriteSheet | Font | string | Promise<any>): v
  * @internal
  */
 async function waitForAssets() {
-  await Promise.all(_assets);
+  await Promise.all(_game.assets);
 }
 
 /**
@@ -423,6 +1496,7 @@ async function waitForAssets() {
  * Clear the canvas.
  */
 export function clear() {
+  let { canvas, ctx } = _game;
   ctx.clearRect(0, 0, canvas.width, canvas.height);
 }
 
@@ -433,15 +1507,20 @@ export function clear() {
  * @param h Height in pixels
  */
 function resize(w: number, h: number) {
-  let scaleX = window.innerWidth / w;
-  let scaleY = window.innerHeight / h;
-  let scale = Math.min(scaleX, scaleY, _maxCanvasScale);
+  let { canvas, ctx } = _game;
   canvas.width = w;
   canvas.height = h;
+  ctx.imageSmoothingEnabled = false;
+
+  // Headless canvases aren't displayed, so they don't need to be scaled
+  if (_game.headless) return;
+
+  let scaleX = window.innerWidth / w;
+  let scaleY = window.innerHeight / h;
+  let scale = Math.min(scaleX, scaleY, _game.maxCanvasScale);
   canvas.style.width = `${w * scale}px`;
   canvas.style.height = `${h * scale}px`;
   canvas.style.imageRendering = "pixelated";
-  ctx.imageSmoothingEnabled = false;
 }
 
 /**
@@ -450,6 +1529,7 @@ function resize(w: number, h: number) {
  * @returns The point, relative to the canvas.
  */
 function screenToCanvas(x: number, y: number): Point {
+  let { canvas } = _game;
   let rect = canvas.getBoundingClientRect();
   let scaleX = canvas.width / rect.width;
   let scaleY = canvas.height / rect.height;
@@ -469,18 +1549,18 @@ function screenToCanvas(x: number, y: number): Point {
  * Push a new state onto the drawing stack.
  */
 export function save() {
-  ctx.save();
-  _stack.push(_state);
-  _state = { ..._state };
+  _game.ctx.save();
+  _game.stack.push(_game.state);
+  _game.state = { ..._game.state };
 }
 
 /**
  * Pop a state from the drawing stack.
  */
 export function restore() {
-  ctx.restore();
-  if (_stack.length) {
-    _state = _stack.pop()!;
+  _game.ctx.restore();
+  if (_game.stack.length) {
+    _game.state = _game.stack.pop()!;
   }
 }
 
@@ -488,7 +1568,7 @@ export function restore() {
  * Set the current font.
  */
 export function font(font: Font) {
-  _state.font = font;
+  _game.state.font = font;
 }
 
 /**
@@ -496,7 +1576,7 @@ export function font(font: Font) {
  * {@link CanvasGradient}, or a {@link CanvasPattern}.
  */
 export function color(color: Fill) {
-  _state.color = color;
+  _game.state.color = color;
 }
 
 /**
@@ -505,13 +1585,13 @@ export function color(color: Fill) {
 export function cursor(
   x: number,
   y: number,
-  col = _state.color,
-  shadow = _state.textShadowColor,
+  col = _game.state.color,
+  shadow = _game.state.textShadowColor,
 ) {
-  _state.textX = x;
-  _state.textY = y;
-  _state.color = col;
-  _state.textShadowColor = shadow;
+  _game.state.textX = x;
+  _game.state.textY = y;
+  _game.state.color = col;
+  _game.state.textShadowColor = shadow;
 }
 
 /**
@@ -543,11 +1623,11 @@ export function cursor(
  */
 export function view(x: number = 0, y: number = 0, w?: number, h?: number) {
   save();
-  ctx.translate(x, y);
-  _state.x = _state.x + x;
-  _state.y = _state.y + y;
-  _state.w = w ?? _state.w;
-  _state.h = h ?? _state.h;
+  _game.ctx.translate(x, y);
+  _game.state.x = _game.state.x + x * _game.state.scale;
+  _game.state.y = _game.state.y + y * _game.state.scale;
+  _game.state.w = w == null ? _game.state.w : w * _game.state.scale;
+  _game.state.h = h == null ? _game.state.h : h * _game.state.scale;
 }
 
 /**
@@ -559,10 +1639,16 @@ export function end() {
 }
 
 /**
- * Returns the bounds of the current view (in global coordinates).
+ * Returns the bounds of the current view. The position is in global
+ * coordinates and the size is in local units, so that it accounts for the
+ * zoom of any cameras.
+ *
+ * Inside a camera, the bounds start at the world's origin and end at the
+ * right and bottom edges of the camera's viewport.
  */
 export function bounds(): Rectangle {
-  return { x: _state.x, y: _state.y, w: _state.w, h: _state.h };
+  let { x, y, w, h, scale } = _game.state;
+  return { x, y, w: w / scale, h: h / scale };
 }
 
 /**
@@ -574,8 +1660,8 @@ export function bounds(): Rectangle {
  */
 export function local(globalX: number, globalY: number): Point {
   return {
-    x: globalX - _state.x,
-    y: globalY - _state.y,
+    x: (globalX - _game.state.x) / _game.state.scale,
+    y: (globalY - _game.state.y) / _game.state.scale,
   };
 }
 
@@ -588,8 +1674,8 @@ export function local(globalX: number, globalY: number): Point {
  */
 export function global(localX: number, localY: number): Point {
   return {
-    x: localX + _state.x,
-    y: localY + _state.y,
+    x: localX * _game.state.scale + _game.state.x,
+    y: localY * _game.state.scale + _game.state.y,
   };
 }
 
@@ -602,41 +1688,212 @@ export function global(localX: number, localY: number): Point {
  * @param h The height of the rectangle, in pixels.
  */
 export function over(x: number, y: number, w: number, h: number): boolean {
-  let { x: px, y: py } = local(_pointer.x, _pointer.y);
+  let { x: px, y: py } = local(_game.pointer.x, _game.pointer.y);
   return px >= x && py >= y && px < x + w && py < y + h;
 }
 
 /**
- * ------
- * Timers
- * ------
+ * -------
+ * Cameras
+ * -------
  */
 
 /**
- * Returns a promise that resolves after a certain amount of time has elapsed.
+ * Creates a camera that is updated with the engine's clock. By default the
+ * camera's viewport is the size of the canvas and it is centered on the
+ * origin.
+ *
+ * Use {@link camera} to draw through the camera, and {@link removeCamera}
+ * once the camera is no longer needed.
+ *
+ * @param options Initial settings for the camera.
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise(done => _timers.push({ duration: ms, elapsed: 0, done }));
+export function createCamera(options: Partial<Camera> = {}): Camera {
+  let cam: Camera = {
+    x: 0,
+    y: 0,
+    w: _game.canvas.width,
+    h: _game.canvas.height,
+    zoom: 1,
+    target: undefined,
+    deadzone: { w: 0, h: 0 },
+    smoothing: 0,
+    bounds: undefined,
+    shakeIntensity: 0,
+    shakeDuration: 0,
+    shakeElapsed: 0,
+    offset: { x: 0, y: 0 },
+    ...options,
+  };
+
+  clampCamera(cam);
+  _game.cameras.push(cam);
+  return cam;
 }
 
 /**
- * Updates the internal state of all timers.
+ * Stops a camera from being updated with the engine's clock.
  */
-function updateTimers() {
-  for (let timer of _timers) {
-    timer.elapsed += _delta;
-    if (timer.elapsed >= timer.duration) {
-      timer.done();
-    }
-  }
-
-  _timers = _timers.filter(timer => timer.elapsed < timer.duration);
+export function removeCamera(cam: Camera) {
+  _game.cameras = _game.cameras.filter(other => other !== cam);
+}
+
+/**
+ * Makes a camera follow a point. The camera keeps tracking the point as it
+ * moves, until it is given a different target.
+ *
+ * @param cam The camera.
+ * @param target The point to follow, or undefined to stop following.
+ * @param deadzone The size of the region around the center of the viewport
+ * that the target can move inside without moving the camera.
+ */
+export function follow(
+  cam: Camera,
+  target: Point | undefined,
+  deadzone = cam.deadzone,
+) {
+  cam.target = target;
+  cam.deadzone = deadzone;
+}
+
+/**
+ * Shakes a camera. The shake fades out over its duration.
+ *
+ * @param cam The camera.
+ * @param intensity The max distance to shake (in screen pixels).
+ * @param duration The length of the shake (in milliseconds).
+ */
+export function shake(cam: Camera, intensity: number, duration: number) {
+  cam.shakeIntensity = intensity;
+  cam.shakeDuration = duration;
+  cam.shakeElapsed = 0;
+}
+
+/**
+ * Start drawing through a camera. Everything after this call will be drawn
+ * in world coordinates until {@link end} is called.
+ *
+ * Use {@link local} to convert global coordinates (e.g. the pointer) to
+ * world coordinates, and {@link global} to convert world coordinates back.
+ */
+export function camera(cam: Camera) {
+  let zoom = cameraZoom(cam);
+  let { x, y } = cameraOrigin(cam);
+  save();
+  _game.ctx.translate(x, y);
+  _game.ctx.scale(zoom, zoom);
+  _game.state.x += x;
+  _game.state.y += y;
+  // The view rect starts at the world's origin, so it needs to stretch to
+  // the edges of the viewport
+  _game.state.w = cam.w - x;
+  _game.state.h = cam.h - y;
+  _game.state.scale *= zoom;
+}
+
+/**
+ * Returns the camera's zoom factor, rounded to a whole number.
+ */
+function cameraZoom(cam: Camera): number {
+  return Math.max(1, Math.round(cam.zoom));
+}
+
+/**
+ * Returns the screen position of the world's origin when drawn through a
+ * camera, rounded to whole pixels.
+ */
+function cameraOrigin(cam: Camera): Point {
+  let zoom = cameraZoom(cam);
+  let left = cam.x - cam.w / 2 / zoom;
+  let top = cam.y - cam.h / 2 / zoom;
+  return {
+    x: -Math.round(left * zoom) + cam.offset.x,
+    y: -Math.round(top * zoom) + cam.offset.y,
+  };
+}
+
+/**
+ * Moves a camera so that its viewport stays inside its bounds. If the
+ * viewport is larger than the bounds, then the camera is centered on them.
+ */
+function clampCamera(cam: Camera) {
+  if (cam.bounds == null) return;
+  let zoom = cameraZoom(cam);
+  let { x, y, w, h } = cam.bounds;
+  let halfW = cam.w / 2 / zoom;
+  let halfH = cam.h / 2 / zoom;
+  cam.x = w < halfW * 2 ? x + w / 2 : clamp(x + halfW, x + w - halfW, cam.x);
+  cam.y = h < halfH * 2 ? y + h / 2 : clamp(y + halfH, y + h - halfH, cam.y);
+}
+
+/**
+ * Updates the state of cameras that are following targets or shaking.
+ */
+function updateCameras() {
+  for (let cam of _game.cameras) {
+    if (cam.target) {
+      let { x, y } = cam.target;
+      let halfW = cam.deadzone.w / 2;
+      let halfH = cam.deadzone.h / 2;
+      let goalX = clamp(x - halfW, x + halfW, cam.x);
+      let goalY = clamp(y - halfH, y + halfH, cam.y);
+
+      // Framerate independent easing towards the goal
+      let k = 1 - Math.pow(clamp(0, 1, cam.smoothing), _game.delta / (1000 / 60));
+      cam.x += (goalX - cam.x) * k;
+      cam.y += (goalY - cam.y) * k;
+    }
+
+    clampCamera(cam);
+
+    if (cam.shakeElapsed < cam.shakeDuration) {
+      cam.shakeElapsed += _game.delta;
+      let t = clamp(0, 1, cam.shakeElapsed / cam.shakeDuration);
+      let power = cam.shakeIntensity * (1 - t);
+
+      // Deterministic noise, so that replays shake in the same way
+      cam.offset.x = Math.round(Math.sin(cam.shakeElapsed * 0.37) * power);
+      cam.offset.y = Math.round(Math.cos(cam.shakeElapsed * 0.53) * power);
+    } else {
+      cam.offset.x = cam.offset.y = 0;
+    }
+  }
+}
+
+/**
+ * ------
+ * Timers
+ * ------
+ */
+
+/**
+ * Returns a promise that resolves after a certain amount of time has elapsed.
+ * @param ms The number of milliseconds to wait.
+ * @param owner An entity that the timer belongs to. The timer is cancelled
+ * (and the promise never resolves) if the entity is removed from its world.
+ */
+export function delay(ms: number, owner?: Entity): Promise<void> {
+  return new Promise(done => _game.timers.push({ duration: ms, elapsed: 0, done, owner }));
+}
+
+/**
+ * Updates the internal state of all timers.
+ */
+function updateTimers() {
+  for (let timer of _game.timers) {
+    timer.elapsed += _game.delta;
+    if (timer.elapsed >= timer.duration) {
+      timer.done();
+    }
+  }
+
+  _game.timers = _game.timers.filter(timer => timer.elapsed < timer.duration);
 }
 
 /**
  * -----
- * Input
- * -----
+ * Input
+ * -----
  */
 
 /**
@@ -644,66 +1901,385 @@ function updateTimers() {
  * relative to the canvas.
  */
 export function pointer(): Point {
-  return { x: _pointer.x, y: _pointer.y };
+  return { x: _game.pointer.x, y: _game.pointer.y };
 }
 
 /**
  * Returns true if the button in question is currently down.
  */
 export function down(btn: Button = Buttons.MouseLeft): boolean {
-  return _down.has(btn);
+  return _game.down.has(btn);
 }
 
 /**
  * Returns true if the button in question was pressed during this frame.
  */
 export function pressed(btn: Button = Buttons.MouseLeft): boolean {
-  return _pressed.has(btn);
+  return _game.pressed.has(btn);
 }
 
 /**
  * Returns true if the button in question was released during this frame.
  */
 export function released(btn: Button = Buttons.MouseLeft): boolean {
-  return _released.has(btn);
+  return _game.released.has(btn);
+}
+
+/**
+ * Returns the current value of an analog gamepad axis. Sticks return values
+ * from -1 to 1 and triggers return values from 0 to 1. Values inside the
+ * deadzone are reported as 0.
+ */
+export function axis(id: GamepadAxes): number {
+  return _game.axes[id];
 }
 
 function onResize() {
-  resize(canvas.width, canvas.height);
+  resize(_game.canvas.width, _game.canvas.height);
 }
 
 function onPointerMove(event: PointerEvent) {
   let { x, y } = screenToCanvas(event.clientX, event.clientY);
-  _pointer.x = Math.floor(x);
-  _pointer.y = Math.floor(y);
+  _game.pointer.x = Math.floor(x);
+  _game.pointer.y = Math.floor(y);
 }
 
 function onPointerDown(event: PointerEvent) {
-  _down.add(event.button);
-  _pressed.add(event.button);
+  unlockAudio();
+  _game.down.add(event.button);
+  _game.pressed.add(event.button);
 }
 
 function onPointerUp(event: PointerEvent) {
-  _down.delete(event.button);
-  _released.add(event.button);
+  _game.down.delete(event.button);
+  _game.released.add(event.button);
 }
 
 function onKeyDown(event: KeyboardEvent) {
-  _down.add(event.key);
-  _pressed.add(event.key);
+  unlockAudio();
+  _game.down.add(event.key);
+  _game.pressed.add(event.key);
 }
 
 function onKeyUp(event: KeyboardEvent) {
-  _down.delete(event.key);
-  _released.add(event.key);
+  _game.down.delete(event.key);
+  _game.released.add(event.key);
 }
 
 /**
  * Reset input state (usually done at the start of each frame).
  */
 function updateInputs() {
-  _pressed.clear();
-  _released.clear();
+  _game.pressed.clear();
+  _game.released.clear();
+}
+
+/**
+ * The gamepad button for each button index in the standard gamepad layout.
+ */
+let _gamepadButtons: GamepadButtons[] = [
+  GamepadButtons.A,
+  GamepadButtons.B,
+  GamepadButtons.X,
+  GamepadButtons.Y,
+  GamepadButtons.LeftBumper,
+  GamepadButtons.RightBumper,
+  GamepadButtons.LeftTrigger,
+  GamepadButtons.RightTrigger,
+  GamepadButtons.Select,
+  GamepadButtons.Start,
+  GamepadButtons.LeftStick,
+  GamepadButtons.RightStick,
+  GamepadButtons.Up,
+  GamepadButtons.Down,
+  GamepadButtons.Left,
+  GamepadButtons.Right,
+  GamepadButtons.Home,
+];
+
+/**
+ * Rescales an analog value so that the range outside the deadzone maps onto
+ * the full range from 0 to 1.
+ */
+function applyDeadzone(value: number): number {
+  // A deadzone of 1 (or more) covers the whole range
+  if (_game.deadzone >= 1 || Math.abs(value) < _game.deadzone) return 0;
+  return Math.sign(value) * (Math.abs(value) - _game.deadzone) / (1 - _game.deadzone);
+}
+
+/**
+ * Applies a radial deadzone to a pair of stick axes, so that diagonals are
+ * not snapped towards the cardinal directions.
+ */
+function applyStickDeadzone(x: number, y: number): [number, number] {
+  let length = Math.hypot(x, y);
+  if (length === 0) return [0, 0];
+  let scale = Math.min(1, applyDeadzone(length)) / length;
+  return [x * scale, y * scale];
+}
+
+/**
+ * Polls connected gamepads and merges their buttons into the button sets.
+ * Buttons and axes from every connected gamepad are combined, so that any
+ * controller can be used to play.
+ */
+function updateGamepads() {
+  let gamepads = navigator.getGamepads?.() ?? [];
+  let down = new Set<Button>();
+  let axes = [0, 0, 0, 0, 0, 0];
+
+  for (let gamepad of gamepads) {
+    if (gamepad == null || !gamepad.connected) continue;
+
+    gamepad.buttons.forEach((button, index) => {
+      let btn = _gamepadButtons[index];
+      if (btn && button.pressed) down.add(btn);
+    });
+
+    let [lx, ly] = applyStickDeadzone(gamepad.axes[0] ?? 0, gamepad.axes[1] ?? 0);
+    let [rx, ry] = applyStickDeadzone(gamepad.axes[2] ?? 0, gamepad.axes[3] ?? 0);
+    let lt = applyDeadzone(gamepad.buttons[6]?.value ?? 0);
+    let rt = applyDeadzone(gamepad.buttons[7]?.value ?? 0);
+
+    // Keep the value with the largest magnitude from any gamepad
+    [lx, ly, rx, ry, lt, rt].forEach((value, id) => {
+      if (Math.abs(value) > Math.abs(axes[id])) axes[id] = value;
+    });
+  }
+
+  for (let btn of _gamepadButtons) {
+    if (down.has(btn) && !_game.down.has(btn)) {
+      _game.down.add(btn);
+      _game.pressed.add(btn);
+    } else if (!down.has(btn) && _game.down.has(btn)) {
+      _game.down.delete(btn);
+      _game.released.add(btn);
+    }
+  }
+
+  _game.axes = axes;
+}
+
+/**
+ * -------
+ * Actions
+ * -------
+ */
+
+/**
+ * Binds buttons to a named action. Actions can have any number of buttons
+ * bound to them, and each button can trigger any number of actions.
+ *
+ * @param action The name of the action (e.g. `"jump"`).
+ * @param buttons The buttons that should trigger this action.
+ */
+export function bind(action: string, ...buttons: Button[]) {
+  let bound = _game.bindings[action] ||= [];
+
+  for (let btn of buttons) {
+    if (!bound.includes(btn)) bound.push(btn);
+  }
+}
+
+/**
+ * Removes buttons from a named action. If no buttons are given then every
+ * button is removed from the action.
+ */
+export function unbind(action: string, ...buttons: Button[]) {
+  if (buttons.length === 0) {
+    delete _game.bindings[action];
+  } else if (_game.bindings[action]) {
+    _game.bindings[action] = _game.bindings[action].filter(btn => !buttons.includes(btn));
+  }
+}
+
+/**
+ * Replaces the buttons that are bound to a named action.
+ */
+export function rebind(action: string, ...buttons: Button[]) {
+  unbind(action);
+  bind(action, ...buttons);
+}
+
+/**
+ * Returns the buttons that are bound to a named action.
+ */
+export function bindings(action: string): Button[] {
+  return [...(_game.bindings[action] || [])];
+}
+
+/**
+ * Serializes all bindings to a string (e.g. to save in local storage).
+ * @see {@link loadBindings}
+ */
+export function saveBindings(): string {
+  return JSON.stringify(_game.bindings);
+}
+
+/**
+ * Replaces all bindings with bindings from a string that was created by
+ * {@link saveBindings}. Throws without changing the current bindings if the
+ * string isn't valid.
+ */
+export function loadBindings(data: string) {
+  let parsed: unknown = JSON.parse(data);
+  assert(typeof parsed === "object" && parsed !== null && !Array.isArray(parsed), "Invalid bindings");
+  let bindings: Record<string, Button[]> = {};
+
+  for (let [action, buttons] of Object.entries(parsed)) {
+    assert(Array.isArray(buttons), `Invalid bindings for ${action}`);
+
+    for (let btn of buttons) {
+      assert(typeof btn === "string" || typeof btn === "number", `Invalid bindings for ${action}`);
+    }
+
+    bindings[action] = buttons;
+  }
+
+  _game.bindings = bindings;
+}
+
+/**
+ * Returns true if any of the buttons bound to an action are currently down.
+ */
+export function actionDown(action: string): boolean {
+  return bindings(action).some(btn => _game.down.has(btn));
+}
+
+/**
+ * Returns true if the action went down during this frame. Pressing a second
+ * button for an action that is already down does not count.
+ */
+export function actionPressed(action: string): boolean {
+  let buttons = bindings(action);
+  return (
+    buttons.some(btn => _game.pressed.has(btn)) &&
+    buttons.every(btn => !_game.down.has(btn) || _game.pressed.has(btn))
+  );
+}
+
+/**
+ * Returns true if the action was released during this frame. An action is
+ * only released once none of its buttons are down.
+ */
+export function actionReleased(action: string): boolean {
+  let buttons = bindings(action);
+  return (
+    buttons.some(btn => _game.released.has(btn)) &&
+    buttons.every(btn => !_game.down.has(btn))
+  );
+}
+
+/**
+ * ---------
+ * Recording
+ * ---------
+ */
+
+/**
+ * Starts recording input (and time deltas) for each frame.
+ * @see {@link stopRecording}
+ */
+export function startRecording() {
+  _game.recorder = {
+    recording: { frames: [] },
+    down: [],
+    pointer: [NaN, NaN],
+    axes: [0, 0, 0, 0, 0, 0],
+  };
+}
+
+/**
+ * Stops recording input.
+ * @returns The recording, which can be passed to {@link replay}.
+ */
+export function stopRecording(): InputRecording {
+  assert(_game.recorder, "Not recording");
+  let { recording } = _game.recorder;
+  _game.recorder = undefined;
+  return recording;
+}
+
+/**
+ * Replays every frame of a recording immediately, calling `loop` once per
+ * frame with the recorded input. Useful for reproducing a session in a test.
+ *
+ * Use the `replay` option for {@link start} to replay a recording in real
+ * time instead.
+ */
+export function replay(recording: InputRecording, loop: () => void) {
+  beginReplay(recording);
+
+  let frame: RecordedFrame | undefined;
+
+  while (frame = nextReplayFrame()) {
+    save();
+    loop();
+    restore();
+    _update(frame.t);
+  }
+
+  _game.replay = undefined;
+}
+
+/**
+ * Returns true if two lists contain the same values in the same order.
+ */
+function sameValues(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((value, i) => Object.is(value, b[i]));
+}
+
+/**
+ * Adds the input state for the current frame to the recording.
+ */
+function recordFrame(dt: number) {
+  if (_game.recorder == null) return;
+
+  let frame: RecordedFrame = { t: dt };
+  let down = [..._game.down];
+  let pointer: [number, number] = [_game.pointer.x, _game.pointer.y];
+
+  if (_game.pressed.size) frame.p = [..._game.pressed];
+  if (_game.released.size) frame.r = [..._game.released];
+  if (!sameValues(down, _game.recorder.down)) frame.d = down;
+  if (!sameValues(pointer, _game.recorder.pointer)) frame.m = pointer;
+  if (!sameValues(_game.axes, _game.recorder.axes)) frame.a = [..._game.axes];
+
+  _game.recorder.down = down;
+  _game.recorder.pointer = pointer;
+  _game.recorder.axes = _game.axes;
+  _game.recorder.recording.frames.push(frame);
+}
+
+/**
+ * Resets input to the state that recordings start from and starts a replay.
+ */
+function beginReplay(recording: InputRecording) {
+  _game.replay = { recording, index: 0 };
+  _game.down.clear();
+  _game.pressed.clear();
+  _game.released.clear();
+  _game.pointer = { x: NaN, y: NaN };
+  _game.axes = [0, 0, 0, 0, 0, 0];
+}
+
+/**
+ * Applies the input from the next frame of the current replay.
+ * @returns The frame, or undefined if the replay has finished.
+ */
+function nextReplayFrame(): RecordedFrame | undefined {
+  let frame = _game.replay?.recording.frames[_game.replay.index++];
+  if (frame == null) return;
+
+  _game.pressed = new Set(frame.p);
+  _game.released = new Set(frame.r);
+  if (frame.d) _game.down = new Set(frame.d);
+  if (frame.a) _game.axes = [...frame.a];
+
+  // NaN coordinates become null after a round trip through JSON
+  if (frame.m) _game.pointer = { x: frame.m[0] ?? NaN, y: frame.m[1] ?? NaN };
+
+  return frame;
 }
 
 /**
@@ -735,6 +2311,9 @@ export let easeOutBack: Easing = t =>
  * @param duration Length of tween in milliseconds
  * @param easing Easing timing function
  * @param callback Callback called once per frame with the tween value.
+ * @param owner An entity that the tween belongs to. The tween is cancelled
+ * (and the promise never resolves) if the entity is removed from its world.
+ * Tweens for the entity's own properties don't need an owner.
  * @returns A promise that resolves when the tween is done.
  */
 export function tween<
@@ -746,6 +2325,7 @@ export function tween<
   duration: number,
   easing: Easing = easeLinear,
   callback: (t: number) => void = () => {},
+  owner?: Entity,
 ): Promise<void> {
   return new Promise(resolve => {
     let keys = Object.keys(to);
@@ -755,7 +2335,7 @@ export function tween<
       from[key] = object[key];
     }
 
-    _tweens.push({
+    _game.tweens.push({
       object,
       to: to as Tween["to"],
       from,
@@ -765,6 +2345,7 @@ export function tween<
       easing,
       callback,
       done: resolve,
+      owner,
     });
   });
 }
@@ -773,8 +2354,8 @@ export function tween<
  * Updates the state of active tweens.
  */
 function updateTweens() {
-  for (let tween of _tweens) {
-    tween.elapsed += _delta;
+  for (let tween of _game.tweens) {
+    tween.elapsed += _game.delta;
     let t = clamp(0, 1, tween.elapsed / tween.duration);
     let k = tween.easing(t);
 
@@ -792,7 +2373,114 @@ function updateTweens() {
     }
   }
 
-  _tweens = _tweens.filter(tween => tween.elapsed < tween.duration);
+  _game.tweens = _game.tweens.filter(tween => tween.elapsed < tween.duration);
+}
+
+/**
+ * --------
+ * Entities
+ * --------
+ */
+
+/**
+ * Creates a world for entities that is updated with the engine's clock.
+ *
+ * Use {@link drawWorld} to draw the world's entities, and
+ * {@link removeWorld} once the world is no longer needed.
+ */
+export function createWorld(): World {
+  let world: World = { entities: [], paused: false };
+  _game.worlds.push(world);
+  return world;
+}
+
+/**
+ * Removes every entity from a world and stops it from being updated with the
+ * engine's clock.
+ */
+export function removeWorld(world: World) {
+  for (let entity of [...world.entities]) {
+    removeEntity(world, entity);
+  }
+
+  _game.worlds = _game.worlds.filter(other => other !== world);
+}
+
+/**
+ * Adds an entity to a world, removing it from its previous world if it had
+ * one. Entities that are added while the world is updating are updated from
+ * the next update.
+ * @returns The entity.
+ */
+export function addEntity<T extends Entity>(world: World, entity: T): T {
+  let previous = _game.entityWorlds.get(entity);
+  if (previous === world) return entity;
+  if (previous) removeEntity(previous, entity);
+  world.entities.push(entity);
+  _game.entityWorlds.set(entity, world);
+  entity.added?.();
+  return entity;
+}
+
+/**
+ * Removes an entity from a world, and cancels its timers (see
+ * {@link delay}), the tweens for its properties, and any tweens that it
+ * owns (see {@link tween}). Entities that are removed while the world is
+ * updating aren't updated again.
+ *
+ * The promises for cancelled timers and tweens never settle, so code that
+ * awaits them stops running rather than acting on a removed entity.
+ */
+export function removeEntity(world: World, entity: Entity) {
+  if (_game.entityWorlds.get(entity) !== world) return;
+  _game.entityWorlds.delete(entity);
+  world.entities.splice(world.entities.indexOf(entity), 1);
+  _game.timers = _game.timers.filter(timer => timer.owner !== entity);
+  _game.tweens = _game.tweens.filter(tween => tween.object !== entity && tween.owner !== entity);
+  entity.removed?.();
+}
+
+/**
+ * Finds the entities in a world that have a tag, or that match a
+ * predicate.
+ */
+export function findEntities(world: World, tag: string): Entity[];
+export function findEntities<T extends Entity>(world: World, predicate: (entity: Entity) => entity is T): T[];
+export function findEntities(world: World, predicate: (entity: Entity) => boolean): Entity[];
+export function findEntities(world: World, filter: string | ((entity: Entity) => boolean)): Entity[] {
+  if (typeof filter === "string") {
+    return world.entities.filter(entity => entity.tags?.includes(filter));
+  } else {
+    return world.entities.filter(filter);
+  }
+}
+
+/**
+ * Draws the entities in a world in order of depth, then from top to
+ * bottom.
+ */
+export function drawWorld(world: World) {
+  let entities = [...world.entities].sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0) || a.y - b.y);
+
+  for (let entity of entities) {
+    entity.draw?.();
+  }
+}
+
+/**
+ * Updates the entities in each world that isn't paused.
+ */
+function updateWorlds() {
+  for (let world of _game.worlds) {
+    if (world.paused) continue;
+
+    // Iterate over a copy, so that entities can be added and removed
+    for (let entity of [...world.entities]) {
+      if (_game.entityWorlds.get(entity) === world) {
+        entity.update?.();
+      }
+    }
+  }
 }
 
 /**
@@ -805,7 +2493,18 @@ function updateTweens() {
  * Fills a rectangle.
  * @param col The color/fill to fill the rectangle with.
  */
-export function fillRect(x: number, y: number, w: number, h: number, col = _state.color) {
+export function fillRect(x: number, y: number, w: number, h: number, col = _game.state.color) {
+  let { ctx, drawCommands } = _game;
+
+  drawCommands?.push({
+    type: "fillRect",
+    ...global(x | 0, y | 0),
+    w: w | 0,
+    h: h | 0,
+    scale: _game.state.scale,
+    color: col,
+  });
+
   ctx.save();
   ctx.fillStyle = col;
   ctx.fillRect(x | 0, y | 0, w | 0, h | 0);
@@ -816,7 +2515,18 @@ export function fillRect(x: number, y: number, w: number, h: number, col = _stat
  * Strokes a rectangle.
  * @param col The color/fill to stroke the line with.
  */
-export function strokeRect(x: number, y: number, w: number, h: number, col = _state.color) {
+export function strokeRect(x: number, y: number, w: number, h: number, col = _game.state.color) {
+  let { ctx, drawCommands } = _game;
+
+  drawCommands?.push({
+    type: "strokeRect",
+    ...global(x | 0, y | 0),
+    w: w | 0,
+    h: h | 0,
+    scale: _game.state.scale,
+    color: col,
+  });
+
   ctx.save();
   ctx.strokeStyle = col;
   ctx.strokeRect((x | 0) + 0.5, (y | 0) + 0.5, w | 0, h | 0);
@@ -827,7 +2537,21 @@ export function strokeRect(x: number, y: number, w: number, h: number, col = _st
  * Strokes a single pixel line between two points.
  * @param col The color/fill to stroke the line with.
  */
-export function line(x1: number, y1: number, x2: number, y2: number, col = _state.color) {
+export function line(x1: number, y1: number, x2: number, y2: number, col = _game.state.color) {
+  let { ctx, drawCommands } = _game;
+
+  if (drawCommands) {
+    let end = global(x2, y2);
+    drawCommands.push({
+      type: "line",
+      ...global(x1, y1),
+      x2: end.x,
+      y2: end.y,
+      scale: _game.state.scale,
+      color: col,
+    });
+  }
+
   let points = lineToPoints(x1, y1, x2, y2);
   ctx.save();
   ctx.fillStyle = col;
@@ -839,11 +2563,6 @@ export function line(x1: number, y1: number, x2: number, y2: number, col = _stat
   ctx.restore();
 }
 
-/**
- * Cache of stamps we've already rendered before.
- */
-let _stampTextureCache = new TextureCache();
-
 /**
  * Draws a monochromatic 5x5 bit pattern. Useful for drawing particles, icons,
  * and other assets that can be defined in code.
@@ -854,12 +2573,19 @@ let _stampTextureCache = new TextureCache();
  * @param col The color to fill the pattern with.
  * @see https://0x55.netlify.app An editor for these kinds of patterns
  */
-export function stamp(pattern: number, x: number, y: number, col = _state.color) {
+export function stamp(pattern: number, x: number, y: number, col = _game.state.color) {
   let key = `${pattern}/${getKey(col)}`;
 
-  let rect = _stampTextureCache.findOrCreate(key, () => {
-    let canvas = document.createElement("canvas");
-    canvas.width = canvas.height = 5;
+  _game.drawCommands?.push({
+    type: "stamp",
+    pattern,
+    ...global(x, y),
+    scale: _game.state.scale,
+    color: col,
+  });
+
+  let rect = _game.stampTextureCache.findOrCreate(key, () => {
+    let canvas = _game.createCanvas(5, 5);
     let ctx = canvas.getContext("2d")!;
 
     ctx.beginPath();
@@ -876,8 +2602,8 @@ export function stamp(pattern: number, x: number, y: number, col = _state.color)
     return canvas;
   });
 
-  ctx.drawImage(
-    _stampTextureCache.canvas,
+  _game.ctx.drawImage(
+    _game.stampTextureCache.canvas,
     rect.x,
     rect.y,
     rect.w,
@@ -896,22 +2622,117 @@ export function stamp(pattern: number, x: number, y: number, col = _state.color)
  */
 
 /**
- * Draws a sprite at the given coordinates.
- */
-export function draw(sprite: Sprite, x: number, y: number, w = sprite.w, h = sprite.h) {
-  let { x: sx, y: sy, w: sw, h: sh } = sprite;
-  let img = imageByUrl(sprite.url);
-  ctx.drawImage(img, sx, sy, sw, sh, x, y, w, h);
-}
-
-/**
- * Draws a 9-slice sprite.
+ * Draws a sprite (or the current frame of an animation) at the given
+ * coordinates.
+ *
+ * Pass {@link DrawOptions} instead of a size to flip, rotate, fade, or
+ * position the sprite by its pivot.
  */
-export function draw9Slice(
-  sprite: NineSliceSprite,
+export function draw(
+  sprite: Sprite | AnimationPlayer,
   x: number,
   y: number,
-  w: number,
+  w?: number,
+  h?: number,
+): void;
+export function draw(
+  sprite: Sprite | AnimationPlayer,
+  x: number,
+  y: number,
+  options: DrawOptions,
+): void;
+export function draw(
+  sprite: Sprite | AnimationPlayer,
+  x: number,
+  y: number,
+  w?: number | DrawOptions,
+  h?: number,
+) {
+  let source = "sprite" in sprite ? sprite.sprite : sprite;
+  let frame = "sprite" in sprite ? sprite.sprite.frames[sprite.frame] : sprite;
+  let { x: sx, y: sy, w: sw, h: sh } = frame;
+  let img = imageByUrl(source.url);
+
+  if (_game.drawCommands) {
+    let { pivot } = source as Partial<PivotSprite>;
+    _game.drawCommands.push({
+      type: "draw",
+      sprite: { url: source.url, x: sx, y: sy, w: sw, h: sh, ...pivot && { pivot } },
+      ...global(x, y),
+      scale: _game.state.scale,
+      // Sizes are passed as options, which draw in the same way without a pivot
+      options: typeof w === "object" ? { ...w } : { w: w ?? sw, h: h ?? sh, pivot: false },
+    });
+  }
+
+  if (typeof w !== "object") {
+    _game.ctx.drawImage(img, sx, sy, sw, sh, x, y, w ?? sw, h ?? sh);
+    return;
+  }
+
+  let {
+    w: dw = sw,
+    h: dh = sh,
+    flipX = false,
+    flipY = false,
+    rotation = 0,
+    alpha = 1,
+    pivot = true,
+  } = w;
+
+  let origin = pivot === true ? (source as Partial<PivotSprite>).pivot : pivot;
+  let px = dw / 2;
+  let py = dh / 2;
+  let ox = x + px;
+  let oy = y + py;
+
+  if (origin) {
+    px = origin.x * dw / sw;
+    py = origin.y * dh / sh;
+    ox = x;
+    oy = y;
+  }
+
+  // Quarter turns use an exact matrix to avoid float error from sin/cos
+  let turns = rotation / (Math.PI / 2);
+  let exact = Math.abs(turns - Math.round(turns)) < 1e-9;
+  let quarter = ((Math.round(turns) % 4) + 4) % 4;
+  let cos = exact ? [1, 0, -1, 0][quarter] : Math.cos(rotation);
+  let sin = exact ? [0, 1, 0, -1][quarter] : Math.sin(rotation);
+  let fx = flipX ? -1 : 1;
+  let fy = flipY ? -1 : 1;
+  let a = cos * fx;
+  let b = sin * fx;
+  let c = -sin * fy;
+  let d = cos * fy;
+
+  if (exact) {
+    // Snap the transformed rectangle to whole pixels. Centers of odd sized
+    // sprites would otherwise land halfway between pixels after turning.
+    let x0 = -px, y0 = -py, x1 = dw - px, y1 = dh - py;
+    let minX = ox + Math.min(a * x0, a * x1) + Math.min(c * y0, c * y1);
+    let minY = oy + Math.min(b * x0, b * x1) + Math.min(d * y0, d * y1);
+    ox += Math.round(minX) - minX;
+    oy += Math.round(minY) - minY;
+  }
+
+  let { ctx } = _game;
+  ctx.save();
+  ctx.globalAlpha *= alpha;
+  ctx.translate(ox, oy);
+  ctx.transform(a, b, c, d, 0, 0);
+  ctx.drawImage(img, sx, sy, sw, sh, -px, -py, dw, dh);
+  ctx.restore();
+}
+
+/**
+ * Draws a 9-slice sprite.
+ */
+export function draw9Slice(
+  sprite: NineSliceSprite,
+  x: number,
+  y: number,
+  w: number,
   h: number,
 ) {
   let { x: sx, y: sy, w: sw, h: sh } = sprite;
@@ -942,6 +2763,16 @@ export function draw9Slice(
   let dcw = w - left - right;
   let dch = h - top - bottom;
   let img = imageByUrl(sprite.url);
+  let { ctx, drawCommands } = _game;
+
+  drawCommands?.push({
+    type: "draw9Slice",
+    sprite,
+    ...global(x, y),
+    w,
+    h,
+    scale: _game.state.scale,
+  });
 
   ctx.drawImage(img, sx0, sy0, left, top, dx0, dy0, left, top); // top left
   ctx.drawImage(img, sx2, sy0, right, top, dx2, dy0, right, top); // top right
@@ -955,260 +2786,1957 @@ export function draw9Slice(
 }
 
 /**
- * ----
- * Text
- * ----
+ * ---------
+ * Animation
+ * ---------
  */
 
 /**
- * Measure a string of text. Respects linebreaks, but does no wrapping.
- * @param text The text to measure.
- * @returns The rectangle size required to render this text.
+ * Starts animating a sprite. The returned player advances with the engine's
+ * clock and can be passed to {@link draw} to render its current frame.
+ *
+ * Use {@link stopAnimation} once the player is no longer needed.
+ *
+ * @param sprite The animated sprite to play.
+ * @param tag The name of the tag to play (defaults to all frames).
+ * @param mode The playback mode (defaults to the tag's mode, or `"loop"`).
  */
-export function measure(text: string, font = _state.font): Rectangle {
-  let { glyphWidth, lineHeight, glyphWidthsTable } = font;
-  let lineWidth = 0;
-  let boxWidth = 0;
-  let boxHeight = lineHeight;
-
-  for (let i = 0; i < text.length; i++) {
-    let char = text[i];
-    if (char === "\n") {
-      boxWidth = Math.max(boxWidth, lineWidth);
-      boxHeight += lineHeight;
-      lineWidth = 0;
-    } else {
-      lineWidth += glyphWidthsTable[char] ?? glyphWidth;
-    }
-  }
-
-  // Ensure that the final line fits in the box
-  boxWidth = Math.max(boxWidth, lineWidth);
+export function animate(
+  sprite: AnimatedSprite,
+  tag?: string,
+  mode?: AnimationMode,
+): AnimationPlayer {
+  let player: AnimationPlayer = {
+    sprite,
+    tag,
+    mode: "loop",
+    frame: 0,
+    elapsed: 0,
+    speed: 1,
+    paused: false,
+    done: false,
+    direction: 1,
+  };
 
-  return { x: 0, y: 0, w: boxWidth, h: boxHeight };
+  play(player, tag, mode);
+  _game.animations.push(player);
+  return player;
 }
 
 /**
- * Cache of text that we've already rendered before.
+ * Switches a player to a different tag. Playing the tag that is already
+ * playing does nothing, unless the player has finished.
+ *
+ * @param player The player to update.
+ * @param tag The name of the tag to play (defaults to all frames).
+ * @param mode The playback mode (defaults to the tag's mode, or `"loop"`).
  */
-let _textTextureCache = new TextureCache();
+export function play(player: AnimationPlayer, tag?: string, mode?: AnimationMode) {
+  let range = tagRange(player.sprite, tag);
+  mode = mode ?? range.mode ?? "loop";
+
+  let isPlaying =
+    player.frame >= range.from &&
+    player.frame <= range.to &&
+    player.tag === tag &&
+    player.mode === mode &&
+    !player.done;
+
+  if (isPlaying) return;
+
+  player.tag = tag;
+  player.mode = mode;
+  player.direction = range.reverse ? -1 : 1;
+  player.frame = range.reverse ? range.to : range.from;
+  player.elapsed = 0;
+  player.done = false;
+}
 
 /**
- * Writes text to the canvas using a bitmap font.
- *
- * @param text String of text to write.
- * @param x X coordinate to start writing to.
- * @param y Y coordinate to start writing from.
- * @param color The text color/fill.
- * @param shadow The text shadow color.
+ * Stops a player from advancing with the engine's clock.
  */
-export function write(
-  text: string,
-  x = _state.textX,
-  y = _state.textY,
-  color = _state.color,
-  shadow = _state.textShadowColor,
-) {
-  let { font } = _state;
-  let cursorX = x;
-  let cursorY = y;
-  let precolorIndex = font.precoloredGlyphs || 0;
-  let image = precolorIndex === Infinity ? imageByUrl(font.url) : tint(color);
-  let imageShadow = tint(shadow || "transparent");
+export function stopAnimation(player: AnimationPlayer) {
+  _game.animations = _game.animations.filter(other => other !== player);
+}
 
-  for (let i = 0; i < text.length; i++) {
-    let char = text[i];
+/**
+ * Returns the range of frames for a tag, or a range that covers every frame
+ * if no tag is given.
+ */
+function tagRange(sprite: AnimatedSprite, tag: string | undefined): AnimationTag {
+  if (tag == null) {
+    return { from: 0, to: sprite.frames.length - 1 };
+  }
 
-    if (char === "\n") {
-      cursorX = x;
-      cursorY += font.lineHeight;
-      continue;
-    }
+  let range = sprite.tags[tag];
+  assert(range, `Unknown animation tag: ${tag}`);
+  return range;
+}
 
-    let code = char.charCodeAt(0);
-    let gw = font.glyphWidth;
-    let gh = font.glyphHeight;
-    let sx = (code % 16) * gw;
-    let sy = ((code / 16) | 0) * gh;
-    let dx = cursorX;
-    let dy = cursorY;
+/**
+ * Moves a player on to its next frame, according to its playback mode.
+ */
+function advanceAnimation(player: AnimationPlayer) {
+  let { from, to } = tagRange(player.sprite, player.tag);
+  let next = player.frame + player.direction;
+
+  if (next >= from && next <= to) {
+    player.frame = next;
+  } else if (player.mode === "pingpong") {
+    player.direction = player.direction > 0 ? -1 : 1;
+    player.frame = clamp(from, to, player.frame + player.direction);
+  } else if (player.mode === "loop") {
+    player.frame = player.direction > 0 ? from : to;
+  } else {
+    player.done = true;
+  }
+}
 
-    if (shadow) {
-      ctx.drawImage(imageShadow, sx, sy, gw, gh, dx + 1, dy, gw, gh);
-      ctx.drawImage(imageShadow, sx, sy, gw, gh, dx, dy + 1, gw, gh);
-      ctx.drawImage(imageShadow, sx, sy, gw, gh, dx + 1, dy + 1, gw, gh);
+/**
+ * Updates the state of active animation players.
+ */
+function updateAnimations() {
+  for (let player of _game.animations) {
+    if (player.paused) continue;
+    player.elapsed += _game.delta * player.speed;
+
+    while (!player.done) {
+      // Guard against zero length frames, which would never advance.
+      let duration = Math.max(1, player.sprite.frames[player.frame].duration);
+      if (player.elapsed < duration) break;
+      player.elapsed -= duration;
+      advanceAnimation(player);
     }
-
-    // Glyphs below the precolor index are considered to be colored already.
-    let img = code < precolorIndex ? imageByUrl(_state.font.url) : image;
-    ctx.drawImage(img, sx, sy, gw, gh, dx, dy, gw, gh);
-
-    cursorX += font.glyphWidthsTable[char] ?? gw;
   }
-
-  _state.textX = cursorX + (font.glyphWidthsTable[" "] ?? font.glyphWidth);
-  _state.textY = cursorY;
 }
 
 /**
- * Writes a line of text to the canvas using a bitmap font.
+ * --------
+ * Tilemaps
+ * --------
+ */
+
+/**
+ * Draws a tilemap with its top left corner at the given coordinates.
  *
- * @param text String of text to write.
- * @param x X coordinate to start writing to.
- * @param y Y coordinate to start writing from.
- * @param color The text color/fill.
- * @param shadow The text shadow color.
+ * Tiles are pre-rendered in chunks, which are redrawn when their tiles are
+ * changed with {@link setTile}. Only the chunks that overlap the visible part
+ * of the current view (see {@link bounds}) are drawn.
+ *
+ * @param map The tilemap to draw.
+ * @param x The x coordinate for the left of the map.
+ * @param y The y coordinate for the top of the map.
+ * @param layer The index or name of a single layer to draw (defaults to
+ * every visible layer).
  */
-export function writeLine(
-  text: string,
-  x = _state.textX,
-  y = _state.textY,
-  color = _state.color,
-  shadow = _state.textShadowColor,
+export function drawTilemap(
+  map: Tilemap,
+  x: number = 0,
+  y: number = 0,
+  layer?: number | string,
 ) {
-  write(text, x, y, color, shadow);
-  _state.textX = x;
-  _state.textY += _state.font.lineHeight;
+  let { ctx, canvas, state } = _game;
+  let cache = _game.tilemapCaches.get(map);
+
+  if (cache == null) {
+    let revisions: Record<string, number> = {};
+    let texture = new TextureCache(_game.createCanvas, {
+      onEvict: key => delete revisions[key],
+    });
+    cache = { texture, revisions };
+    _game.tilemapCaches.set(map, cache);
+  }
+
+  // Find the visible region in local coordinates
+  let { x: left, y: top } = local(Math.max(0, state.x), Math.max(0, state.y));
+  let { x: right, y: bottom } = local(
+    Math.min(canvas.width, state.x + state.w),
+    Math.min(canvas.height, state.y + state.h),
+  );
+
+  let chunkW = map.chunkSize * map.tileWidth;
+  let chunkH = map.chunkSize * map.tileHeight;
+  let columns = Math.ceil(map.width / map.chunkSize);
+  let rows = Math.ceil(map.height / map.chunkSize);
+  let overhang = tilemapOverhang(map);
+
+  // Chunks that are just outside the visible region can still have sprites
+  // that overhang into it
+  let minX = clamp(0, columns, Math.floor((left - x - overhang.x) / chunkW));
+  let minY = clamp(0, rows, Math.floor((top - y) / chunkH));
+  let maxX = clamp(0, columns, Math.ceil((right - x) / chunkW));
+  let maxY = clamp(0, rows, Math.ceil((bottom - y + overhang.y) / chunkH));
+
+  let layers = layer == null
+    ? map.layers.filter(other => other.visible)
+    : [getLayer(map, layer)];
+
+  for (let layer of layers) {
+    ctx.save();
+    ctx.globalAlpha *= layer.alpha;
+
+    for (let cy = minY; cy < maxY; cy++) {
+      for (let cx = minX; cx < maxX; cx++) {
+        let rect = tilemapChunk(map, cache, layer, cx, cy, overhang);
+        if (rect == null) continue;
+        let dx = x + cx * chunkW;
+        let dy = y + cy * chunkH - overhang.y;
+        ctx.drawImage(cache.texture.canvas, rect.x, rect.y, rect.w, rect.h, dx, dy, rect.w, rect.h);
+      }
+    }
+
+    ctx.restore();
+  }
 }
 
 /**
- * A cache of recolored font images.
+ * Returns how far the sprites in a tilemap's sheet can overhang their tiles.
+ * Wider sprites overhang to the right and taller sprites overhang upwards.
  */
-let _tintCanvasCache: Record<string, HTMLCanvasElement> = {};
+function tilemapOverhang(map: Tilemap): Point {
+  let overhang = { x: 0, y: 0 };
+
+  for (let id in map.sheet) {
+    let sprite = map.sheet[id];
+    overhang.x = Math.max(overhang.x, sprite.w - map.tileWidth);
+    overhang.y = Math.max(overhang.y, sprite.h - map.tileHeight);
+  }
+
+  return overhang;
+}
 
 /**
- * Creates a recolored version of the current font's image.
+ * Returns the rectangle of a chunk in a tilemap's texture cache, rendering
+ * the chunk first if it has changed since it was last rendered. Returns
+ * undefined for empty chunks.
+ *
+ * Chunks are padded by the overhang on their top and right edges, so that
+ * sprites which are bigger than a tile aren't clipped.
  */
-function tint(col: Fill): HTMLCanvasElement {
-  let key = `tint:${_state.font.url}/${getKey(col)}`;
-  let canvas = _tintCanvasCache[key];
+function tilemapChunk(
+  map: Tilemap,
+  cache: TilemapCache,
+  layer: TileLayer,
+  cx: number,
+  cy: number,
+  overhang: Point,
+): Rectangle | undefined {
+  let chunk = cx + cy * Math.ceil(map.width / map.chunkSize);
+  let key = `${getKey(layer)}:${chunk}`;
+  let revision = _chunkRevision(layer, chunk);
+
+  if (cache.revisions[key] === revision) {
+    return cache.texture.get(key);
+  }
 
-  if (!canvas) {
-    canvas = document.createElement("canvas");
-    let ctx = canvas.getContext("2d")!;
-    let img = imageByUrl(_state.font.url);
-    canvas.width = img.width;
-    canvas.height = img.height;
+  let { chunkSize, tileWidth, tileHeight } = map;
+  let canvas = _game.createCanvas(
+    chunkSize * tileWidth + overhang.x,
+    chunkSize * tileHeight + overhang.y,
+  );
+  let ctx = canvas.getContext("2d")!;
+  let empty = true;
+  let loaded = true;
+
+  for (let ty = 0; ty < chunkSize; ty++) {
+    for (let tx = 0; tx < chunkSize; tx++) {
+      let col = cx * chunkSize + tx;
+      let row = cy * chunkSize + ty;
+      if (col >= map.width || row >= map.height) continue;
+
+      let id = layer.tiles[col + row * map.width];
+      let sprite = id == null ? undefined : map.sheet[id];
+      if (sprite == null) continue;
+
+      let img = imageByUrl(sprite.url);
+      loaded &&= img.complete;
+      empty = false;
+
+      // Sprites that are taller than a tile are aligned to the bottom of it
+      let dy = overhang.y + ty * tileHeight + tileHeight - sprite.h;
+      ctx.drawImage(img, sprite.x, sprite.y, sprite.w, sprite.h, tx * tileWidth, dy, sprite.w, sprite.h);
+    }
+  }
 
-    ctx.globalCompositeOperation = "multiply";
-    ctx.fillStyle = col;
-    ctx.fillRect(0, 0, img.width, img.height);
-    ctx.drawImage(img, 0, 0);
-    ctx.globalCompositeOperation = "destination-atop";
-    ctx.drawImage(img, 0, 0);
+  // Chunks with images that are still loading are rendered again next time
+  cache.revisions[key] = loaded ? revision : -1;
 
-    _tintCanvasCache[key] = canvas;
+  if (empty) {
+    cache.texture.remove(key);
+    return;
   }
 
-  return canvas;
+  return cache.texture.update(key, canvas);
 }
 
 /**
  * ----
- * Loop
+ * Text
  * ----
  */
 
 /**
- * Returns the number of milliseconds between the current frame and the
- * previous frame.
+ * A glyph that has been positioned by {@link layoutText}.
  */
-export function delta() {
-  return _delta;
+interface LayoutGlyph {
+  /**
+   * The character for this glyph.
+   */
+  char: string;
+  /**
+   * The x coordinate of the glyph, relative to the text's origin.
+   */
+  x: number;
+  /**
+   * The y coordinate of the glyph, relative to the text's origin.
+   */
+  y: number;
+  /**
+   * The color of the glyph.
+   */
+  color: Fill;
+  /**
+   * The shadow color of the glyph, if it has a shadow.
+   */
+  shadow: Fill | undefined;
 }
 
 /**
- * Called once per frame to update internal state.
- * @internal
+ * A string of text that has been rendered into the text texture cache.
  */
-export function _update(dt: number) {
-  _delta = dt;
-  updateTweens();
-  updateTimers();
-  updateInputs();
+interface CachedText {
+  /**
+   * The x coordinate of the rendered text, relative to the text's origin.
+   */
+  x: number;
+  /**
+   * The y coordinate of the rendered text, relative to the text's origin.
+   */
+  y: number;
+  /**
+   * Where the text cursor moves to after the text is written, relative to the
+   * text's origin.
+   */
+  cursor: Point;
 }
 
 /**
- * Resets all internal state, useful for testing.
- * @internal
+ * Positioned glyphs for a string of text. The layout's rectangle is the
+ * bounding box of the text, relative to the text's origin.
  */
-export function _reset() {
-  _images = {};
-  _state = _stack[0] || _state;
-  _stack = [];
-  _assets = [];
-  _tweens = [];
-  _tintCanvasCache = {};
-  _stampTextureCache.clear();
-  _textTextureCache.clear();
-  _down.clear();
-  _pressed.clear();
-  _released.clear();
-  cancelAnimationFrame(_animationFrame);
-  removeEventListeners();
-  clear();
+interface TextLayout extends Rectangle {
+  glyphs: LayoutGlyph[];
+  /**
+   * Where the text cursor moves to after the text is written, which leaves a
+   * space after the end of the last line.
+   */
+  cursor: Point;
 }
 
 /**
- * Adds internal event listeners.
+ * Measure a string of text. Respects linebreaks, markup, wrapping and
+ * alignment, in exactly the same way as {@link write}.
+ *
+ * @param text The text to measure.
+ * @param options The font to measure with, or options for the layout.
+ * @returns The bounding box of the text, relative to the coordinates that it
+ * would be written at.
  */
-function addEventListeners() {
-  window.addEventListener("resize", onResize);
-  window.addEventListener("pointermove", onPointerMove);
-  window.addEventListener("pointerdown", onPointerDown);
-  window.addEventListener("pointerup", onPointerUp);
-  window.addEventListener("keydown", onKeyDown);
-  window.addEventListener("keyup", onKeyUp);
+export function measure(
+  text: string,
+  options: Font | TextOptions = _game.state.font,
+): Rectangle {
+  let opts = "url" in options ? { font: options } : options;
+  let { x, y, w, h } = layoutText(text, opts);
+  return { x, y, w, h };
 }
 
 /**
- * Removes internal event listeners.
+ * Splits text into unpositioned glyphs, applying the styles from any markup.
+ *
+ * - `{red}` (or any other CSS named color or hex color) changes the color.
+ * - `{shadow:black}` changes the shadow color, and `{shadow:none}` removes
+ *   the shadow.
+ * - `{/}` undoes the most recent change.
+ * - `{{` is a literal `{`.
+ *
+ * Anything else in braces (e.g. `{score}`) is written as text.
  */
-function removeEventListeners() {
-  window.removeEventListener("resize", onResize);
-  window.removeEventListener("pointermove", onPointerMove);
-  window.removeEventListener("pointerdown", onPointerDown);
-  window.removeEventListener("pointerup", onPointerUp);
-  window.removeEventListener("keydown", onKeyDown);
-  window.removeEventListener("keyup", onKeyUp);
+function parseMarkup(
+  text: string,
+  color: Fill,
+  shadow: Fill | undefined,
+  markup: boolean,
+): LayoutGlyph[] {
+  let glyphs: LayoutGlyph[] = [];
+  let styles: { color: Fill, shadow: Fill | undefined }[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    let char = String.fromCodePoint(text.codePointAt(i)!);
+    let close = markup && char === "{" ? text.indexOf("}", i) : -1;
+    let tag = close > i ? text.slice(i + 1, close) : undefined;
+
+    if (markup && char === "{" && text[i + 1] === "{") {
+      i += 2;
+    } else if (tag != null && isMarkupTag(tag)) {
+      i = close + 1;
+
+      if (tag === "/") {
+        ({ color, shadow } = styles.pop() || { color, shadow });
+      } else if (tag.startsWith("shadow:")) {
+        styles.push({ color, shadow });
+        let value = tag.slice("shadow:".length);
+        shadow = value === "none" ? undefined : value;
+      } else {
+        styles.push({ color, shadow });
+        color = tag;
+      }
+
+      continue;
+    } else {
+      i += char.length;
+    }
+
+    glyphs.push({ char, x: 0, y: 0, color, shadow });
+  }
+
+  return glyphs;
 }
 
 /**
- * Calls {@see _update} and the callback function once per frame.
- * @internal
+ * Checks whether the text between braces is a tag that {@link parseMarkup}
+ * understands.
  */
-function startLoop(callback: () => void) {
-  let lastFrameTime = 0;
+function isMarkupTag(tag: string): boolean {
+  if (tag === "/") return true;
+  if (!tag.startsWith("shadow:")) return isColor(tag);
+  let value = tag.slice("shadow:".length);
+  return value === "none" || isColor(value);
+}
 
-  function loop(time: number) {
-    _animationFrame = requestAnimationFrame(loop);
-    lastFrameTime = lastFrameTime || time;
-    let delta = time - lastFrameTime;
-    lastFrameTime = time;
-    save();
-    callback();
-    restore();
-    _update(delta);
+/**
+ * Positions the glyphs for a string of text.
+ */
+function layoutText(text: string, options: TextOptions): TextLayout {
+  let {
+    font = _game.state.font,
+    color = _game.state.color,
+    shadow = _game.state.textShadowColor,
+    markup = true,
+    maxWidth = Infinity,
+    height,
+    align = "left",
+    valign = "top",
+  } = options;
+
+  let advance = (glyph: LayoutGlyph) => glyphAdvance(font, glyph.char);
+  let letterSpacing = font.letterSpacing ?? 0;
+  let lineStep = lineHeight(font);
+
+  // Space between two neighbouring glyphs on the same line
+  let spacing = (a: LayoutGlyph | undefined, b: string) =>
+    a ? (font.kerning?.[a.char + b] ?? 0) + letterSpacing : 0;
+  let chars = parseMarkup(text, color, shadow, markup);
+  let lines: LayoutGlyph[][] = [];
+  let widths: number[] = [];
+  let line: LayoutGlyph[] = [];
+  let lineWidth = 0;
+
+  let push = (glyph: LayoutGlyph) => {
+    lineWidth += spacing(line[line.length - 1], glyph.char) + advance(glyph);
+    line.push(glyph);
+  };
+
+  let newline = () => {
+    lines.push(line);
+    widths.push(lineWidth);
+    line = [];
+    lineWidth = 0;
+  };
+
+  // Trailing spaces are dropped from lines that are wrapped
+  let wrap = () => {
+    while (line.length && line[line.length - 1].char === " ") {
+      let glyph = line.pop()!;
+      lineWidth -= spacing(line[line.length - 1], glyph.char) + advance(glyph);
+    }
+    newline();
+  };
+
+  for (let i = 0; i < chars.length;) {
+    if (chars[i].char === "\n") {
+      newline();
+      i++;
+      continue;
+    }
+
+    // Take the next word or run of spaces
+    let space = chars[i].char === " ";
+    let start = i;
+    while (i < chars.length && chars[i].char !== "\n" && (chars[i].char === " ") === space) i++;
+    let word = chars.slice(start, i);
+    let wordWidth = word.reduce((w, glyph, j) => w + spacing(word[j - 1], glyph.char) + advance(glyph), 0);
+
+    if (!space) {
+      let fits = lineWidth + spacing(line[line.length - 1], word[0].char) + wordWidth <= maxWidth;
+
+      if (!fits && line.some(glyph => glyph.char !== " ")) {
+        wrap();
+      }
+
+      if (wordWidth > maxWidth) {
+        for (let glyph of word) {
+          let next = lineWidth + spacing(line[line.length - 1], glyph.char) + advance(glyph);
+          if (line.length && next > maxWidth) wrap();
+          push(glyph);
+        }
+        continue;
+      }
+    }
+
+    word.forEach(push);
   }
 
-  requestAnimationFrame(loop);
+  newline();
+
+  let boxWidth = maxWidth < Infinity ? maxWidth : Math.max(...widths);
+  let boxHeight = (lines.length - 1) * lineStep + font.lineHeight;
+
+  let top =
+    height == null || valign === "top" ? 0 :
+    valign === "middle" ? Math.floor((height - boxHeight) / 2) :
+    height - boxHeight;
+
+  let glyphs: LayoutGlyph[] = [];
+  let left = Infinity;
+  let right = -Infinity;
+  let cursor = { x: 0, y: top };
+
+  lines.forEach((line, row) => {
+    let lineWidth = widths[row];
+    let x =
+      align === "left" ? 0 :
+      align === "center" ? Math.floor((boxWidth - lineWidth) / 2) :
+      boxWidth - lineWidth;
+    let y = top + row * lineStep;
+
+    left = Math.min(left, x);
+    right = Math.max(right, x + lineWidth);
+
+    line.forEach((glyph, i) => {
+      x += spacing(line[i - 1], glyph.char);
+      glyph.x = x;
+      glyph.y = y;
+      glyphs.push(glyph);
+      x += advance(glyph);
+    });
+
+    // Leave a space before whatever is written next
+    let space = spacing(line[line.length - 1], " ") + glyphAdvance(font, " ");
+    cursor = { x: x + space + letterSpacing, y };
+  });
+
+  return { x: left, y: top, w: right - left, h: boxHeight, glyphs, cursor };
 }
 
 /**
- * Call once to configure, wait for assets to load, then start the update loop.
+ * Writes text to the canvas using a bitmap font.
+ *
+ * Pass {@link TextOptions} instead of colors to wrap and align the text.
+ *
+ * Text can contain markup to change colors part way through:
+ *
+ * ```ts
+ * write("Deal {red}5 damage{/} to {shadow:black}all{/} enemies");
+ * ```
+ *
+ * Tags can be CSS named colors or hex colors, and braces around anything
+ * else are written as text. Use `{{` to write a literal `{` before a color
+ * name, or disable markup with the `markup` option.
+ *
+ * @param text String of text to write.
+ * @param x X coordinate to start writing to.
+ * @param y Y coordinate to start writing from.
+ * @param color The text color/fill.
+ * @param shadow The text shadow color.
  */
-export async function start({
-  width = 320,
-  height = 180,
-  maxCanvasScale = Infinity,
-  font = defaultFont,
-  loop,
-}: Config = {}) {
-  _state.font = font;
-  _maxCanvasScale = maxCanvasScale;
-  resize(width, height);
-  preload(font);
-  await waitForAssets();
-  addEventListeners();
-  if (loop) startLoop(loop);
+export function write(
+  text: string,
+  x?: number,
+  y?: number,
+  color?: Fill,
+  shadow?: Fill,
+): void;
+export function write(
+  text: string,
+  x: number,
+  y: number,
+  options: TextOptions,
+): void;
+export function write(
+  text: string,
+  x = _game.state.textX,
+  y = _game.state.textY,
+  color: Fill | TextOptions = _game.state.color,
+  shadow = _game.state.textShadowColor,
+) {
+  let options: TextOptions = isTextOptions(color) ? color : { color, shadow };
+
+  let {
+    font = _game.state.font,
+    color: fill = _game.state.color,
+    shadow: shadowFill = _game.state.textShadowColor,
+    cache = true,
+  } = options;
+
+  let { ctx, drawCommands } = _game;
+  let { markup, maxWidth, height, align, valign } = options;
+
+  drawCommands?.push({
+    type: "write",
+    text,
+    ...global(x, y),
+    scale: _game.state.scale,
+    options: { font, color: fill, shadow: shadowFill, markup, maxWidth, height, align, valign },
+  });
+  // Colors can contain any character, so the parts of the key are quoted
+  let key = JSON.stringify([getKey(font), getKey(fill), getKey(shadowFill), markup, maxWidth, height, align, valign, text]);
+  let cached = cache ? _game.textCache.get(key) : undefined;
+
+  if (cached == null) {
+    let layout = layoutText(text, { ...options, font, color: fill, shadow: shadowFill });
+
+    // Text can't be cached until the font's images have loaded
+    if (cache && fontLoaded(font)) {
+      cached = cacheText(key, font, layout);
+    }
+
+    if (cached == null) {
+      drawGlyphs(ctx, font, layout.glyphs, x, y);
+      _game.state.textX = x + layout.cursor.x;
+      _game.state.textY = y + layout.cursor.y;
+      return;
+    }
+  }
+
+  // Text with nothing to draw isn't in the texture cache
+  let rect = _game.textTextureCache.get(key);
+
+  if (rect) {
+    let dx = x + cached.x;
+    let dy = y + cached.y;
+    ctx.drawImage(_game.textTextureCache.canvas, rect.x, rect.y, rect.w, rect.h, dx, dy, rect.w, rect.h);
+  }
+
+  _game.state.textX = x + cached.cursor.x;
+  _game.state.textY = y + cached.cursor.y;
+}
+
+/**
+ * Draws positioned glyphs to a canvas.
+ */
+function drawGlyphs(
+  ctx: CanvasRenderingContext2D,
+  font: Font,
+  glyphs: LayoutGlyph[],
+  x: number,
+  y: number,
+) {
+  let precolorIndex = font.precoloredGlyphs || 0;
+
+  for (let glyph of glyphs) {
+    let source = glyphSource(font, glyph.char);
+    if (source == null || source.w === 0 || source.h === 0) continue;
+
+    let { url, index, x: sx, y: sy, w: gw, h: gh } = source;
+    let dx = x + glyph.x + source.offsetX;
+    let dy = y + glyph.y + source.offsetY;
+
+    if (glyph.shadow) {
+      let imageShadow = tint(glyph.shadow, url);
+      ctx.drawImage(imageShadow, sx, sy, gw, gh, dx + 1, dy, gw, gh);
+      ctx.drawImage(imageShadow, sx, sy, gw, gh, dx, dy + 1, gw, gh);
+      ctx.drawImage(imageShadow, sx, sy, gw, gh, dx + 1, dy + 1, gw, gh);
+    }
+
+    // Glyphs below the precolor index are considered to be colored already.
+    let img = index < precolorIndex ? imageByUrl(url) : tint(glyph.color, url);
+    ctx.drawImage(img, sx, sy, gw, gh, dx, dy, gw, gh);
+  }
+}
+
+/**
+ * Renders a layout into the text texture cache. The least recently written
+ * text is evicted when the cache is full, so that text that changes
+ * constantly doesn't use more and more memory.
+ *
+ * Returns undefined if the text is too big for the texture cache, so that it
+ * can be drawn without caching instead.
+ */
+function cacheText(key: string, font: Font, layout: TextLayout): CachedText | undefined {
+  let left = Infinity;
+  let top = Infinity;
+  let right = -Infinity;
+  let bottom = -Infinity;
+
+  // Find the bounds of everything that will be drawn, including shadows
+  for (let glyph of layout.glyphs) {
+    let source = glyphSource(font, glyph.char);
+    if (source == null || source.w === 0 || source.h === 0) continue;
+    let shadow = glyph.shadow ? 1 : 0;
+    left = Math.min(left, glyph.x + source.offsetX);
+    top = Math.min(top, glyph.y + source.offsetY);
+    right = Math.max(right, glyph.x + source.offsetX + source.w + shadow);
+    bottom = Math.max(bottom, glyph.y + source.offsetY + source.h + shadow);
+  }
+
+  let { maxSize } = _game.textTextureCache;
+  if (right - left > maxSize || bottom - top > maxSize) return;
+
+  if (left < right && top < bottom) {
+    let canvas = _game.createCanvas(right - left, bottom - top);
+    drawGlyphs(canvas.getContext("2d")!, font, layout.glyphs, -left, -top);
+    _game.textTextureCache.add(key, canvas);
+  }
+
+  let cached: CachedText = { x: left, y: top, cursor: layout.cursor };
+  _game.textCache.set(key, cached);
+  return cached;
+}
+
+/**
+ * Creates the texture cache for rendered text. Text that is evicted from the
+ * texture is removed from the text cache too.
+ */
+function createTextTexture(createCanvas: CanvasFactory): TextureCache {
+  return new TextureCache(createCanvas, {
+    onEvict: key => _game.textCache.delete(key),
+  });
+}
+
+/**
+ * Creates the cache for rendered text. Text that is evicted from the cache is
+ * removed from the text texture cache too.
+ */
+function createTextCache(size: number): LRUCache<string, CachedText> {
+  return new LRUCache(size, key => _game.textTextureCache.remove(key));
+}
+
+/**
+ * Checks whether all of a font's images have loaded.
+ */
+function fontLoaded(font: Font): boolean {
+  return [font.url, ...font.pages || []].every(url => imageByUrl(url).complete);
+}
+
+/**
+ * Where to find a glyph in a font's images, and how to offset it.
+ */
+interface GlyphSource extends Rectangle {
+  url: string;
+  index: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Finds the glyph for a character in a font's images. Returns undefined if
+ * the font doesn't have a glyph for the character.
+ */
+function glyphSource(font: Font, char: string): GlyphSource | undefined {
+  let pageUrl = (page: number) => page === 0 ? font.url : font.pages?.[page - 1];
+
+  if (font.chars) {
+    let glyph = font.chars[char];
+    let url = glyph && pageUrl(glyph.page);
+    if (url == null) return;
+    let index = char.codePointAt(0)!;
+    return { ...glyph, url, index };
+  }
+
+  let columns = font.columns || 16;
+  let glyphsPerPage = columns * (font.rows || Infinity);
+  let index = glyphIndex(font, char);
+  let url = pageUrl(Math.floor(index / glyphsPerPage));
+  if (index < 0 || url == null) return;
+
+  let cell = index % glyphsPerPage;
+
+  return {
+    url,
+    index,
+    x: (cell % columns) * font.glyphWidth,
+    y: Math.floor(cell / columns) * font.glyphHeight,
+    w: font.glyphWidth,
+    h: font.glyphHeight,
+    offsetX: 0,
+    offsetY: 0,
+  };
+}
+
+/**
+ * Returns the distance to move the cursor after a character, not including
+ * kerning.
+ */
+function glyphAdvance(font: Font, char: string): number {
+  return font.chars
+    ? font.chars[char]?.advance ?? 0
+    : font.glyphWidthsTable[char] ?? font.glyphWidth;
+}
+
+/**
+ * Returns the distance between the tops of consecutive lines of text.
+ */
+function lineHeight(font: Font): number {
+  return font.lineHeight + (font.lineSpacing ?? 0);
+}
+
+/**
+ * Glyph numbers for the characters in each font's glyph map.
+ */
+let _glyphMaps = new WeakMap<Font, Map<string, number>>();
+
+/**
+ * Returns the glyph number for a character in a font, or -1 if the font
+ * doesn't have a glyph for it.
+ */
+function glyphIndex(font: Font, char: string): number {
+  let code = char.codePointAt(0)!;
+
+  if (font.glyphs) {
+    let map = _glyphMaps.get(font);
+
+    if (map == null) {
+      map = new Map(typeof font.glyphs === "string"
+        ? [...font.glyphs].map((char, index) => [char, index])
+        : Object.entries(font.glyphs));
+      _glyphMaps.set(font, map);
+    }
+
+    let index = map.get(char);
+    if (index != null) return index;
+  }
+
+  for (let range of font.ranges || []) {
+    if (code >= range.from && code <= range.to) {
+      return range.glyph + code - range.from;
+    }
+  }
+
+  // Fonts with explicit mappings don't have glyphs for other characters
+  return font.glyphs || font.ranges ? -1 : code;
+}
+
+/**
+ * Checks whether the color argument to {@link write} is an options object.
+ */
+function isTextOptions(value: Fill | TextOptions): value is TextOptions {
+  return typeof value === "object" && value.constructor === Object;
+}
+
+/**
+ * Writes a line of text to the canvas using a bitmap font.
+ *
+ * @param text String of text to write.
+ * @param x X coordinate to start writing to.
+ * @param y Y coordinate to start writing from.
+ * @param color The text color/fill.
+ * @param shadow The text shadow color.
+ */
+export function writeLine(
+  text: string,
+  x?: number,
+  y?: number,
+  color?: Fill,
+  shadow?: Fill,
+): void;
+export function writeLine(
+  text: string,
+  x: number,
+  y: number,
+  options: TextOptions,
+): void;
+export function writeLine(
+  text: string,
+  x = _game.state.textX,
+  y = _game.state.textY,
+  color: Fill | TextOptions = _game.state.color,
+  shadow = _game.state.textShadowColor,
+) {
+  let options: TextOptions = isTextOptions(color) ? color : { color, shadow };
+  write(text, x, y, options);
+  _game.state.textX = x;
+  _game.state.textY += lineHeight(options.font || _game.state.font);
+}
+
+/**
+ * Creates a recolored version of a font's image.
+ */
+function tint(col: Fill, url: string): HTMLCanvasElement {
+  let key = `tint:${url}/${getKey(col)}`;
+  let canvas = _game.tintCanvasCache[key];
+
+  if (!canvas) {
+    let img = imageByUrl(url);
+    canvas = _game.createCanvas(img.width, img.height);
+    let ctx = canvas.getContext("2d")!;
+
+    ctx.globalCompositeOperation = "multiply";
+    ctx.fillStyle = col;
+    ctx.fillRect(0, 0, img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+    ctx.globalCompositeOperation = "destination-atop";
+    ctx.drawImage(img, 0, 0);
+
+    _game.tintCanvasCache[key] = canvas;
+  }
+
+  return canvas;
+}
+
+/**
+ * -------------
+ * Draw Commands
+ * -------------
+ */
+
+/**
+ * Starts (or stops) recording draw calls as {@link DrawCommand}s. The list
+ * of commands is emptied at the start of each frame.
+ * @see {@link drawCommands}
+ */
+export function recordDraw(enabled = true) {
+  _game.drawCommands = enabled ? [] : undefined;
+}
+
+/**
+ * Returns the draw commands that have been recorded during the current
+ * frame.
+ */
+export function drawCommands(): DrawCommand[] {
+  assert(_game.drawCommands, "Not recording draw commands");
+  return _game.drawCommands;
+}
+
+/**
+ * Draws a list of recorded commands onto a canvas.
+ * @param commands Commands from {@link drawCommands}.
+ * @param target The canvas to draw onto (defaults to the game's canvas).
+ */
+export function replayDraw(commands: DrawCommand[], target = _game.canvas) {
+  let game = _game;
+  let { ctx, drawCommands } = game;
+  game.ctx = target.getContext("2d")!;
+  game.drawCommands = undefined;
+  save();
+
+  try {
+    for (let command of commands) {
+      let { x, y, scale } = command;
+      game.ctx.setTransform(scale, 0, 0, scale, x, y);
+
+      switch (command.type) {
+        case "fillRect":
+          fillRect(0, 0, command.w, command.h, command.color);
+          break;
+        case "strokeRect":
+          strokeRect(0, 0, command.w, command.h, command.color);
+          break;
+        case "line":
+          line(0, 0, (command.x2 - x) / scale, (command.y2 - y) / scale, command.color);
+          break;
+        case "stamp":
+          stamp(command.pattern, 0, 0, command.color);
+          break;
+        case "draw":
+          draw(command.sprite, 0, 0, command.options);
+          break;
+        case "draw9Slice":
+          draw9Slice(command.sprite, 0, 0, command.w, command.h);
+          break;
+        case "write":
+          write(command.text, 0, 0, command.options);
+          break;
+      }
+    }
+  } finally {
+    restore();
+    game.ctx = ctx;
+    game.drawCommands = drawCommands;
+  }
+}
+
+/**
+ * -----
+ * Audio
+ * -----
+ */
+
+/**
+ * Returns the current game's audio context, creating it if necessary.
+ */
+function audioContext(): AudioContext {
+  return _game.audioContext ||= new AudioContext();
+}
+
+/**
+ * Returns true if a url looks like it points to a sound.
+ */
+function isSoundUrl(url: string): boolean {
+  return /^data:audio\/|\.(wav|mp3|ogg|oga|m4a|aac|flac|weba)([?#]|$)/i.test(url);
+}
+
+/**
+ * Fetches and decodes a sound into {@link GameState.sounds}.
+ */
+async function loadSound(url: string): Promise<AudioBuffer> {
+  let game = _game;
+  let response = await fetch(url);
+  assert(response.ok, `Could not load sound: ${url}`);
+  let data = await response.arrayBuffer();
+  let buffer = await audioContext().decodeAudioData(data);
+  return game.sounds[url] = buffer;
+}
+
+/**
+ * Creates the audio context, or resumes it if the browser suspended it.
+ * Browsers only allow audio to start during a user interaction, so this is
+ * called for each `pointerdown` and `keydown` event.
+ */
+function unlockAudio() {
+  if (typeof AudioContext === "undefined") return;
+  let context = audioContext();
+  if (context.state === "suspended") context.resume();
+}
+
+/**
+ * Returns the current game's audio nodes, creating them if necessary.
+ */
+function audioGraph(): AudioGraph {
+  if (_game.audio == null) {
+    let context = audioContext();
+    let master = context.createGain();
+    master.gain.value = _game.volumes.master ?? 1;
+    master.connect(context.destination);
+    _game.audio = { master, channels: {}, sounds: new Set() };
+  }
+
+  return _game.audio;
+}
+
+/**
+ * Returns the gain node for a channel, creating it if necessary.
+ */
+function audioChannel(name: string): GainNode {
+  let audio = audioGraph();
+
+  if (audio.channels[name] == null) {
+    let gain = audio.channels[name] = audioContext().createGain();
+    gain.gain.value = _game.volumes[name] ?? 1;
+    gain.connect(audio.master);
+  }
+
+  return audio.channels[name];
+}
+
+/**
+ * Creates a sound from mono PCM samples (e.g. from {@link renderSynth}),
+ * which can be played with {@link playSound}.
+ *
+ * @param samples Samples between -1 and 1.
+ * @param sampleRate Samples per second (defaults to 44100).
+ */
+export function createSound(samples: Float32Array, sampleRate: number = 44100): AudioBuffer {
+  let buffer = audioContext().createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  return buffer;
+}
+
+/**
+ * Plays a sound. Sound urls need to be loaded with {@link preload} first,
+ * and sounds that haven't finished loading are skipped.
+ *
+ * Until the user has interacted with the page, browsers keep audio
+ * suspended. Sounds that don't loop are skipped while audio is suspended,
+ * rather than all playing at once when it resumes. Looping sounds start
+ * playing when the audio is unlocked by the first click or key press.
+ *
+ * @param sound The url of a sound, or a decoded buffer.
+ * @param options Settings for this playback of the sound.
+ * @returns The playing sound, which can be stopped with {@link stopSound}.
+ * Returns undefined if the sound was skipped, because it hasn't loaded or
+ * because it doesn't loop and audio is still suspended.
+ */
+export function playSound(
+  sound: string | AudioBuffer,
+  options: SoundOptions = {},
+): PlayingSound | undefined {
+  let {
+    volume = 1,
+    pitch = 1,
+    pan = 0,
+    loop = false,
+    channel = "sfx",
+  } = options;
+
+  let buffer = typeof sound === "string" ? _game.sounds[sound] : sound;
+  if (buffer == null) return;
+
+  let context = audioContext();
+  if (context.state === "suspended" && !loop) return;
+
+  let source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = loop;
+  source.playbackRate.value = pitch;
+
+  let gain = context.createGain();
+  gain.gain.value = volume;
+  source.connect(gain);
+
+  if (pan) {
+    let panner = context.createStereoPanner();
+    panner.pan.value = clamp(-1, 1, pan);
+    gain.connect(panner);
+    panner.connect(audioChannel(channel));
+  } else {
+    gain.connect(audioChannel(channel));
+  }
+
+  let { sounds } = audioGraph();
+  let playing: PlayingSound = { source, gain, channel, playing: true };
+  sounds.add(playing);
+
+  source.addEventListener("ended", () => {
+    playing.playing = false;
+    sounds.delete(playing);
+  });
+
+  source.start();
+  return playing;
+}
+
+/**
+ * Stops a sound that was started with {@link playSound}.
+ */
+export function stopSound(sound: PlayingSound) {
+  if (!sound.playing) return;
+  sound.playing = false;
+  sound.source.stop();
+  _game.audio?.sounds.delete(sound);
+}
+
+/**
+ * Stops every sound that is playing, or every sound on a channel.
+ */
+export function stopSounds(channel?: string) {
+  for (let sound of _game.audio?.sounds || []) {
+    if (channel == null || sound.channel === channel) {
+      stopSound(sound);
+    }
+  }
+}
+
+/**
+ * Plays a song through the "music" channel, replacing the song that was
+ * playing. Songs are rendered the first time they are played, which may take
+ * a moment for long songs.
+ *
+ * Like other sounds (see {@link playSound}), songs that don't loop are
+ * skipped while audio is suspended. Songs without any rows can't be played.
+ */
+export function playMusic(song: Song, options: MusicOptions = {}) {
+  let { volume = 1, fadeIn = 0, loop = true } = options;
+  assert(songRows(song) > 0, "Song has no rows");
+  stopMusic();
+
+  let context = audioContext();
+  let buffer = _game.songs.get(song);
+
+  if (buffer == null) {
+    buffer = createSound(renderSong(song, context.sampleRate), context.sampleRate);
+    _game.songs.set(song, buffer);
+  }
+
+  let sound = playSound(buffer, { loop, channel: "music", volume: fadeIn > 0 ? 0 : volume });
+  if (sound == null) return;
+  _game.music = { song, sound, loop, startTime: context.currentTime, fade: undefined };
+  fadeMusic(volume, fadeIn);
+}
+
+/**
+ * Stops the song that is playing.
+ * @param fadeOut Milliseconds to fade the song out over before it stops
+ * (defaults to 0).
+ */
+export function stopMusic(fadeOut: number = 0) {
+  let music = _game.music;
+  if (music == null) return;
+
+  if (fadeOut > 0) {
+    let from = music.sound.gain.gain.value;
+    music.fade = { from, to: 0, elapsed: 0, duration: fadeOut, stop: true };
+  } else {
+    stopSound(music.sound);
+    _game.music = undefined;
+  }
+}
+
+/**
+ * Fades the song that is playing to a new volume. Fades happen in game time,
+ * alongside tweens and timers.
+ * @param volume The volume to fade to, from 0 to 1.
+ * @param duration Milliseconds to fade over. The volume changes immediately
+ * if this is 0.
+ */
+export function fadeMusic(volume: number, duration: number) {
+  let music = _game.music;
+  if (music == null) return;
+
+  if (duration > 0) {
+    let from = music.sound.gain.gain.value;
+    music.fade = { from, to: volume, elapsed: 0, duration, stop: false };
+  } else {
+    music.sound.gain.gain.value = volume;
+    music.fade = undefined;
+  }
+}
+
+/**
+ * Returns the row that the song is playing, counting from the start of the
+ * song, or undefined if no song is playing. Useful for syncing the game to
+ * the music.
+ *
+ * Rows follow the audio context's clock rather than game time, so they
+ * match what can be heard even when frames are dropped.
+ */
+export function musicRow(): number | undefined {
+  let music = _game.music;
+  if (music == null) return;
+  let elapsed = musicElapsed(music);
+  let duration = songDuration(music.song);
+  if (music.loop) elapsed %= duration;
+  return Math.floor(elapsed / songRowDuration(music.song));
+}
+
+/**
+ * Returns the seconds since a song started, by the audio context's clock.
+ */
+function musicElapsed(music: Music): number {
+  return audioContext().currentTime - music.startTime;
+}
+
+/**
+ * Stops songs that have ended and advances the fade of the song that is
+ * playing.
+ */
+function updateMusic() {
+  let music = _game.music;
+  if (music == null) return;
+
+  if (!music.loop && musicElapsed(music) >= songDuration(music.song)) {
+    _game.music = undefined;
+    return;
+  }
+
+  let { fade } = music;
+  if (fade == null) return;
+  fade.elapsed += _game.delta;
+  let t = clamp(0, 1, fade.elapsed / fade.duration);
+  music.sound.gain.gain.value = fade.from + (fade.to - fade.from) * t;
+
+  if (t === 1) {
+    music.fade = undefined;
+    if (fade.stop) stopMusic();
+  }
+}
+
+/**
+ * Sets the volume of a channel, or the master volume if no channel is
+ * given.
+ * @param value The volume, from 0 to 1.
+ * @param channel The name of the channel.
+ */
+export function setVolume(value: number, channel = "master") {
+  _game.volumes[channel] = value;
+  let audio = _game.audio;
+  let node = channel === "master" ? audio?.master : audio?.channels[channel];
+  if (node) node.gain.value = value;
+}
+
+/**
+ * Returns the volume of a channel, or the master volume if no channel is
+ * given.
+ */
+export function getVolume(channel = "master"): number {
+  return _game.volumes[channel] ?? 1;
+}
+
+/**
+ * ------
+ * Scenes
+ * ------
+ */
+
+/**
+ * Pushes a scene onto the scene stack, on top of the current scene.
+ * @param scene The scene to push.
+ * @param transition A transition to run while the scene changes.
+ * @returns A promise that resolves when the transition is done.
+ */
+export function pushScene(scene: Scene, transition?: SceneTransition | SceneTransition["type"]): Promise<void> {
+  return changeScene(transition, () => {
+    _game.scenes.push(scene);
+    scene.enter?.();
+  });
+}
+
+/**
+ * Pops the top scene from the scene stack.
+ * @param transition A transition to run while the scene changes.
+ * @returns A promise that resolves when the transition is done.
+ */
+export function popScene(transition?: SceneTransition | SceneTransition["type"]): Promise<void> {
+  return changeScene(transition, () => {
+    let scene = _game.scenes.pop();
+    scene?.exit?.();
+  });
+}
+
+/**
+ * Replaces the top scene on the scene stack.
+ * @param scene The scene to replace it with.
+ * @param transition A transition to run while the scene changes.
+ * @returns A promise that resolves when the transition is done.
+ */
+export function replaceScene(scene: Scene, transition?: SceneTransition | SceneTransition["type"]): Promise<void> {
+  return changeScene(transition, () => {
+    let previous = _game.scenes.pop();
+    previous?.exit?.();
+    _game.scenes.push(scene);
+    scene.enter?.();
+  });
+}
+
+/**
+ * Returns the scene at the top of the scene stack.
+ */
+export function currentScene(): Scene | undefined {
+  return _game.scenes[_game.scenes.length - 1];
+}
+
+/**
+ * Changes the scene stack, halfway through a transition if there is one.
+ * Changes that are made while a transition is running are queued, so that
+ * each one starts after the previous change has finished.
+ */
+function changeScene(
+  options: SceneTransition | SceneTransition["type"] | undefined,
+  change: () => void,
+): Promise<void> {
+  let game = _game;
+  let pending = game.sceneChanges;
+  let run = () => withGame(game, () => transitionScene(options, change));
+  let done = pending ? pending.then(run, run) : run();
+
+  // Changes without transitions happen immediately, unless they are queued
+  if (pending || options != null) {
+    let clear = () => {
+      if (game.sceneChanges === done) game.sceneChanges = undefined;
+    };
+
+    game.sceneChanges = done;
+    done.then(clear, clear);
+  }
+
+  return done;
+}
+
+/**
+ * Runs a single scene change. Transitions are driven by {@link tween}, so
+ * they run in game time.
+ */
+async function transitionScene(
+  options: SceneTransition | SceneTransition["type"] | undefined,
+  change: () => void,
+) {
+  if (options == null) {
+    change();
+    return;
+  }
+
+  let {
+    type,
+    duration = 500,
+    color = "black",
+    easing = easeLinear,
+  } = typeof options === "string" ? { type: options } as SceneTransition : options;
+
+  let game = _game;
+  let transition: ActiveTransition = { type, color, progress: 0, covering: true };
+  game.transition = transition;
+
+  await tween(transition, { progress: 1 }, duration / 2, easing);
+
+  // Tweens finish after the frame, so switch back to the transition's game
+  await withGame(game, () => {
+    change();
+    transition.covering = false;
+    return tween(transition, { progress: 0 }, duration / 2, easing);
+  });
+
+  if (game.transition === transition) {
+    game.transition = undefined;
+  }
+}
+
+/**
+ * Updates the top scene. Scenes aren't updated while a transition is
+ * covering the screen, so that the outgoing scene doesn't respond to input
+ * after it has been asked to change.
+ */
+function updateScenes() {
+  if (_game.transition?.covering) return;
+  currentScene()?.update?.();
+}
+
+/**
+ * Draws the visible scenes from the bottom up, then the transition if there
+ * is one.
+ */
+function drawScenes() {
+  let { scenes, transition, ctx, canvas } = _game;
+  let bottom = scenes.length - 1;
+
+  while (bottom > 0 && scenes[bottom].overlay) {
+    bottom--;
+  }
+
+  for (let i = Math.max(0, bottom); i < scenes.length; i++) {
+    save();
+    scenes[i].draw?.();
+    restore();
+  }
+
+  if (transition) {
+    let { width, height } = canvas;
+    let { progress } = transition;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = transition.color;
+
+    if (transition.type === "fade") {
+      ctx.globalAlpha = progress;
+      ctx.fillRect(0, 0, width, height);
+    } else {
+      let w = Math.round(width * progress);
+      ctx.fillRect(transition.covering ? 0 : width - w, 0, w, height);
+    }
+
+    ctx.restore();
+  }
+}
+
+/**
+ * ----
+ * Loop
+ * ----
+ */
+
+/**
+ * Returns the number of milliseconds between the current frame and the
+ * previous frame.
+ */
+export function delta() {
+  return _game.delta;
+}
+
+/**
+ * Returns how far (from 0 to 1) the game is between the previous fixed
+ * update and the next one. Only meaningful when the game is started with an
+ * `update` callback.
+ */
+export function alpha() {
+  return _game.alpha;
+}
+
+/**
+ * Called once per frame to update internal state.
+ * @internal
+ */
+export function _update(dt: number) {
+  recordFrame(dt);
+  _game.delta = dt;
+  updateWorlds();
+  updateTweens();
+  updateMusic();
+  updateAnimations();
+  updateCameras();
+  updateTimers();
+  updateInputs();
+  if (!_game.replay && !_game.headless) updateGamepads();
+}
+
+/**
+ * Resets all internal state, useful for testing.
+ * @internal
+ */
+export function _reset() {
+  cancelAnimationFrame(_game.animationFrame);
+  removeEventListeners();
+  _game.audioContext?.close();
+
+  // Keep the canvas so that modules which imported it can still use it.
+  let { canvas, config, state, stack } = _game;
+  Object.assign(_game, createGameState({ ...config, canvas }), {
+    state: stack[0] || state,
+  });
+
+  clear();
+}
+
+/**
+ * Adds internal event listeners for the current game.
+ */
+function addEventListeners() {
+  removeEventListeners();
+  listen("resize", onResize);
+  listen("pointermove", onPointerMove);
+  listen("pointerdown", onPointerDown);
+  listen("pointerup", onPointerUp);
+  listen("keydown", onKeyDown);
+  listen("keyup", onKeyUp);
+}
+
+/**
+ * Adds a window event listener that runs with the current game as the
+ * current game.
+ */
+function listen<Type extends keyof WindowEventMap>(
+  type: Type,
+  listener: (event: WindowEventMap[Type]) => void,
+) {
+  let game = _game;
+  let bound = (event: WindowEventMap[Type]) => withGame(game, () => listener(event));
+  window.addEventListener(type, bound);
+  game.removeListeners.push(() => window.removeEventListener(type, bound));
+}
+
+/**
+ * Removes internal event listeners for the current game.
+ */
+function removeEventListeners() {
+  for (let remove of _game.removeListeners) {
+    remove();
+  }
+
+  _game.removeListeners = [];
+}
+
+/**
+ * Advances the game by a single frame, calling the loop callbacks and
+ * {@see _update}. In fixed timestep mode, `elapsed` is added to the
+ * accumulator and `update` is called zero or more times.
+ * @param elapsed Milliseconds since the previous frame.
+ * @returns False if there was nothing left to run (a replay has finished).
+ * @internal
+ */
+function tick(elapsed: number): boolean {
+  let { loop, update, render } = _game.callbacks;
+  if (_game.drawCommands) _game.drawCommands = [];
+
+  if (update == null && render == null) {
+    let dt = elapsed;
+
+    if (_game.replay) {
+      let frame = nextReplayFrame();
+      if (frame == null) return false;
+      dt = frame.t;
+    }
+
+    save();
+    loop?.();
+    updateScenes();
+    drawScenes();
+    restore();
+    _update(dt);
+    return true;
+  }
+
+  // Drop any time beyond the max number of updates so that slow frames
+  // can't snowball into a spiral of death.
+  _game.accumulator = Math.min(
+    _game.accumulator + elapsed,
+    _game.fixedStep * _game.maxUpdatesPerFrame,
+  );
+
+  while (_game.accumulator >= _game.fixedStep) {
+    let dt = _game.fixedStep;
+
+    if (_game.replay) {
+      let frame = nextReplayFrame();
+      if (frame == null) return false;
+      dt = frame.t;
+    }
+
+    save();
+    update?.();
+    updateScenes();
+    restore();
+    _update(dt);
+    _game.accumulator -= _game.fixedStep;
+  }
+
+  _game.alpha = _game.accumulator / _game.fixedStep;
+  save();
+  render?.(_game.alpha);
+  drawScenes();
+  restore();
+  return true;
+}
+
+/**
+ * Calls {@see tick} once per animation frame.
+ * @internal
+ */
+function startLoop() {
+  let game = _game;
+  let lastFrameTime = 0;
+
+  function loop(time: number) {
+    withGame(game, () => {
+      game.animationFrame = requestAnimationFrame(loop);
+      lastFrameTime = lastFrameTime || time;
+      let elapsed = time - lastFrameTime;
+      lastFrameTime = time;
+
+      if (!tick(elapsed)) {
+        cancelAnimationFrame(game.animationFrame);
+      }
+    });
+  }
+
+  game.animationFrame = requestAnimationFrame(loop);
+}
+
+/**
+ * Manually advances the game by a single frame. This is how frames are run
+ * in headless mode, where there is no animation frame loop, but it can be
+ * used to step through frames in any mode.
+ *
+ * @param dt Milliseconds since the previous frame (defaults to 60fps).
+ * @returns False if there was nothing left to run (a replay has finished).
+ */
+export function step(dt: number = 1000 / 60): boolean {
+  return tick(dt);
+}
+
+/**
+ * Call once to configure, wait for assets to load, then start the update loop.
+ */
+export async function start(config: Config = {}) {
+  let game = _game;
+
+  let {
+    width = 320,
+    height = 180,
+    maxCanvasScale = Infinity,
+    deadzone = 0.15,
+    font = defaultFont,
+    replay: recording,
+    headless = false,
+    canvas: target,
+    createCanvas,
+    createImage,
+    loop,
+    update,
+    render,
+    scene,
+    updateRate = 60,
+    maxUpdatesPerFrame = 5,
+    textCacheSize = 256,
+  } = { ...game.config, ...config };
+
+  assert(!(loop && (update || render)), "Use either loop or update and render, not both");
+
+  if (createCanvas && createCanvas !== game.createCanvas) {
+    game.createCanvas = createCanvas;
+    game.stampTextureCache = new TextureCache(createCanvas);
+    game.textTextureCache = createTextTexture(createCanvas);
+    game.textCache = createTextCache(textCacheSize);
+  }
+
+  if (createImage) {
+    game.createImage = createImage;
+  }
+
+  if (target) {
+    game.canvas = target;
+  }
+
+  if (textCacheSize !== game.textCache.maxSize) {
+    game.textCache = createTextCache(textCacheSize);
+    game.textTextureCache.clear();
+  }
+
+  game.state.font = font;
+  game.maxCanvasScale = maxCanvasScale;
+  game.deadzone = deadzone;
+  game.headless = headless;
+  game.callbacks = { loop, update, render };
+  game.fixedStep = 1000 / updateRate;
+  game.maxUpdatesPerFrame = maxUpdatesPerFrame;
+  game.accumulator = 0;
+  resize(width, height);
+
+  if (game === _defaultGame) {
+    canvas = game.canvas;
+    ctx = game.ctx;
+  }
+  preload(font);
+  await waitForAssets();
+
+  withGame(game, () => {
+    if (recording) {
+      beginReplay(recording);
+    } else if (!headless) {
+      addEventListeners();
+    }
+
+    if (scene) {
+      pushScene(scene);
+    }
+
+    if (!headless && (loop || update || render || game.scenes.length)) {
+      startLoop();
+    }
+  });
+}
+
+/**
+ * -----
+ * Games
+ * -----
+ */
+
+/**
+ * A game instance, created with {@link createGame}. Each game owns its own
+ * canvas, drawing state, caches, timers, tweens and input, so that multiple
+ * games can run on the same page.
+ *
+ * Each method behaves like the free function with the same name, but
+ * operates on this game instead of the default game. Free functions that are
+ * called from this game's callbacks (e.g. `loop`) also operate on this game.
+ *
+ * Code that runs after an `await` (e.g. `await delay(100)`) runs after the
+ * callback has returned, so free functions there operate on the default
+ * game. Use the game's methods instead.
+ *
+ * ```ts
+ * let game = currentGame();
+ * await delay(100);
+ * game.write("Ready!");
+ * ```
+ */
+export interface Game {
+  /**
+   * Rendering canvas.
+   */
+  readonly canvas: HTMLCanvasElement;
+  /**
+   * Rendering context.
+   */
+  readonly ctx: CanvasRenderingContext2D;
+  start: typeof start;
+  step: typeof step;
+  preload: typeof preload;
+  clear: typeof clear;
+  save: typeof save;
+  restore: typeof restore;
+  font: typeof font;
+  color: typeof color;
+  cursor: typeof cursor;
+  view: typeof view;
+  end: typeof end;
+  bounds: typeof bounds;
+  local: typeof local;
+  global: typeof global;
+  over: typeof over;
+  createCamera: typeof createCamera;
+  removeCamera: typeof removeCamera;
+  createWorld: typeof createWorld;
+  removeWorld: typeof removeWorld;
+  addEntity: typeof addEntity;
+  removeEntity: typeof removeEntity;
+  findEntities: typeof findEntities;
+  drawWorld: typeof drawWorld;
+  follow: typeof follow;
+  shake: typeof shake;
+  camera: typeof camera;
+  delay: typeof delay;
+  pointer: typeof pointer;
+  down: typeof down;
+  pressed: typeof pressed;
+  released: typeof released;
+  axis: typeof axis;
+  bind: typeof bind;
+  unbind: typeof unbind;
+  rebind: typeof rebind;
+  bindings: typeof bindings;
+  saveBindings: typeof saveBindings;
+  loadBindings: typeof loadBindings;
+  actionDown: typeof actionDown;
+  actionPressed: typeof actionPressed;
+  actionReleased: typeof actionReleased;
+  startRecording: typeof startRecording;
+  stopRecording: typeof stopRecording;
+  replay: typeof replay;
+  recordDraw: typeof recordDraw;
+  drawCommands: typeof drawCommands;
+  replayDraw: typeof replayDraw;
+  playSound: typeof playSound;
+  stopSound: typeof stopSound;
+  stopSounds: typeof stopSounds;
+  setVolume: typeof setVolume;
+  getVolume: typeof getVolume;
+  playMusic: typeof playMusic;
+  stopMusic: typeof stopMusic;
+  fadeMusic: typeof fadeMusic;
+  musicRow: typeof musicRow;
+  pushScene: typeof pushScene;
+  popScene: typeof popScene;
+  replaceScene: typeof replaceScene;
+  currentScene: typeof currentScene;
+  tween: typeof tween;
+  fillRect: typeof fillRect;
+  strokeRect: typeof strokeRect;
+  line: typeof line;
+  stamp: typeof stamp;
+  draw: typeof draw;
+  draw9Slice: typeof draw9Slice;
+  animate: typeof animate;
+  play: typeof play;
+  stopAnimation: typeof stopAnimation;
+  drawTilemap: typeof drawTilemap;
+  measure: typeof measure;
+  write: typeof write;
+  writeLine: typeof writeLine;
+  delta: typeof delta;
+  alpha: typeof alpha;
+}
+
+/**
+ * Creates a new game with its own canvas and state. The free functions in
+ * this module keep working with the default game, so this is only needed
+ * when running more than one game on the same page.
+ *
+ * @param config Settings for the game. These can be overridden by passing
+ * more settings to the game's `start` method.
+ */
+export function createGame(config: Config = {}): Game {
+  return createHandle(createGameState(config));
+}
+
+/**
+ * Returns the handle for the current game. Inside a game's callbacks this
+ * is the game that is running them, which is useful for keeping hold of the
+ * game across an `await` (see {@link Game}).
+ */
+export function currentGame(): Game {
+  return _game.handle || createHandle(_game);
+}
+
+/**
+ * Creates the handle for a game, with methods that run with the game as the
+ * current game.
+ */
+function createHandle(game: GameState): Game {
+  let method = <Fn extends (...args: never[]) => unknown>(fn: Fn): Fn =>
+    ((...args: Parameters<Fn>) => withGame(game, () => fn(...args))) as Fn;
+
+  return game.handle = {
+    get canvas() {
+      return game.canvas;
+    },
+    get ctx() {
+      return game.ctx;
+    },
+    start: method(start),
+    step: method(step),
+    preload: method(preload),
+    clear: method(clear),
+    save: method(save),
+    restore: method(restore),
+    font: method(font),
+    color: method(color),
+    cursor: method(cursor),
+    view: method(view),
+    end: method(end),
+    bounds: method(bounds),
+    local: method(local),
+    global: method(global),
+    over: method(over),
+    createCamera: method(createCamera),
+    removeCamera: method(removeCamera),
+    createWorld: method(createWorld),
+    removeWorld: method(removeWorld),
+    addEntity: method(addEntity),
+    removeEntity: method(removeEntity),
+    findEntities: method(findEntities),
+    drawWorld: method(drawWorld),
+    follow: method(follow),
+    shake: method(shake),
+    camera: method(camera),
+    delay: method(delay),
+    pointer: method(pointer),
+    down: method(down),
+    pressed: method(pressed),
+    released: method(released),
+    axis: method(axis),
+    bind: method(bind),
+    unbind: method(unbind),
+    rebind: method(rebind),
+    bindings: method(bindings),
+    saveBindings: method(saveBindings),
+    loadBindings: method(loadBindings),
+    actionDown: method(actionDown),
+    actionPressed: method(actionPressed),
+    actionReleased: method(actionReleased),
+    startRecording: method(startRecording),
+    stopRecording: method(stopRecording),
+    replay: method(replay),
+    recordDraw: method(recordDraw),
+    drawCommands: method(drawCommands),
+    replayDraw: method(replayDraw),
+    playSound: method(playSound),
+    stopSound: method(stopSound),
+    stopSounds: method(stopSounds),
+    setVolume: method(setVolume),
+    getVolume: method(getVolume),
+    playMusic: method(playMusic),
+    stopMusic: method(stopMusic),
+    fadeMusic: method(fadeMusic),
+    musicRow: method(musicRow),
+    pushScene: method(pushScene),
+    popScene: method(popScene),
+    replaceScene: method(replaceScene),
+    currentScene: method(currentScene),
+    tween: method(tween),
+    fillRect: method(fillRect),
+    strokeRect: method(strokeRect),
+    line: method(line),
+    stamp: method(stamp),
+    draw: method(draw),
+    draw9Slice: method(draw9Slice),
+    animate: method(animate),
+    play: method(play),
+    stopAnimation: method(stopAnimation),
+    drawTilemap: method(drawTilemap),
+    measure: method(measure),
+    write: method(write),
+    writeLine: method(writeLine),
+    delta: method(delta),
+    alpha: method(alpha),
+  };
 }
@@ -0,0 +1,57 @@
+import { expect, test } from "vitest";
+import { noteFrequency, renderSong, Song, songDuration, songRows } from "./music";
+
+let song: Song = {
+  bpm: 60,
+  rowsPerBeat: 1,
+  instruments: {
+    lead: { wave: "square", sustain: 0, decay: 0, volume: 1 },
+    bass: { wave: "square", sustain: 0, decay: 0.5, volume: 1 },
+  },
+  patterns: {
+    melody: "A4 . - .",
+    bass: "A2 - . .",
+  },
+  channels: [
+    { instrument: "lead", sequence: ["melody", "melody"] },
+    { instrument: "bass", sequence: ["bass"], volume: 0.5 },
+  ],
+};
+
+test("note frequencies", () => {
+  expect(noteFrequency("A4")).toBe(440);
+  expect(noteFrequency("A5")).toBe(880);
+  expect(noteFrequency("C#5")).toBeCloseTo(554.37, 2);
+  expect(noteFrequency("Db5")).toBeCloseTo(554.37, 2);
+  expect(noteFrequency("C-1")).toBeCloseTo(8.18, 2);
+  expect(() => noteFrequency("H2")).toThrow(/Invalid note/);
+});
+
+test("song length", () => {
+  expect(songRows(song)).toBe(8);
+  expect(songDuration(song)).toBe(8);
+});
+
+test("rendering songs", () => {
+  let samples = renderSong(song, 100);
+  expect(samples).toHaveLength(800);
+  let loudness = (from: number, to: number) =>
+    Math.max(...samples.slice(from, to).map(Math.abs));
+
+  // Melody and bass together, then the melody is held and the bass decays
+  expect(loudness(0, 100)).toBe(1);
+  expect(loudness(100, 200)).toBe(1);
+  expect(loudness(150, 200)).toBeGreaterThan(0);
+
+  // Rests are silent
+  expect(loudness(200, 400)).toBe(0);
+  expect(loudness(600, 800)).toBe(0);
+
+  // Rendering is deterministic
+  expect(renderSong(song, 100)).toEqual(samples);
+});
+
+test("invalid songs", () => {
+  expect(() => renderSong({ ...song, channels: [{ instrument: "drums", sequence: [] }] })).toThrow(/no instrument: drums/);
+  expect(() => renderSong({ ...song, channels: [{ instrument: "lead", sequence: ["chorus"] }] })).toThrow(/no pattern: chorus/);
+});
@@ -0,0 +1,209 @@
+import { createSynth, renderSynth } from "./synth";
+import type { SynthParams } from "./synth";
+import { assert, clamp } from "./utils";
+
+/**
+ * A tracker style song. Each channel plays one instrument, and steps through
+ * a sequence of patterns, one row at a time.
+ *
+ * ```ts
+ * let song: Song = {
+ *   bpm: 120,
+ *   instruments: {
+ *     lead: { wave: "square", duty: 0.25, decay: 0.1 },
+ *     bass: { wave: "saw", volume: 0.3 },
+ *   },
+ *   patterns: {
+ *     melody: "C5 . E5 . G5 . . - C6 . . . - . . .",
+ *     bass: "C3 . . . . . . . G2 . . . . . . .",
+ *   },
+ *   channels: [
+ *     { instrument: "lead", sequence: ["melody", "melody"] },
+ *     { instrument: "bass", sequence: ["bass", "bass"], volume: 0.5 },
+ *   ],
+ * };
+ * ```
+ */
+export interface Song {
+  /**
+   * The tempo in beats per minute.
+   */
+  bpm: number;
+  /**
+   * The number of rows in each beat (defaults to 4).
+   */
+  rowsPerBeat?: number;
+  /**
+   * Instruments by name. Notes set the frequency, and the sustain is
+   * stretched to last for as long as the note is held.
+   */
+  instruments: Record<string, Partial<SynthParams>>;
+  /**
+   * Patterns by name. Each pattern is a list of rows separated by
+   * whitespace, where each row is one of:
+   *
+   * - A note (e.g. `C4`, `F#3` or `Bb5`) which releases the previous note.
+   * - `.` to keep holding the current note (or keep resting).
+   * - `-` to release the current note.
+   */
+  patterns: Record<string, string>;
+  /**
+   * The channels that play at the same time.
+   */
+  channels: SongChannel[];
+}
+
+/**
+ * A channel in a {@link Song}.
+ */
+export interface SongChannel {
+  /**
+   * The name of the instrument that this channel plays.
+   */
+  instrument: string;
+  /**
+   * The names of the patterns that this channel plays, in order.
+   */
+  sequence: string[];
+  /**
+   * The volume of this channel (defaults to 1).
+   */
+  volume?: number;
+}
+
+/**
+ * A note that was found in a channel's patterns.
+ */
+interface SongNote {
+  /**
+   * The row that the note starts on, from the start of the song.
+   */
+  row: number;
+  /**
+   * The number of rows that the note is held for.
+   */
+  rows: number;
+  frequency: number;
+}
+
+/**
+ * Semitones from C for each note name.
+ */
+let _semitones: Record<string, number> = {
+  C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11,
+};
+
+/**
+ * Returns the frequency of a note in scientific pitch notation, where A4 is
+ * 440Hz. Notes can be sharpened with `#` or flattened with `b`.
+ *
+ * ```ts
+ * noteFrequency("A4"); // 440
+ * noteFrequency("C#5"); // 554.37
+ * ```
+ */
+export function noteFrequency(note: string): number {
+  let match = note.match(/^([A-G])([#b]?)(-?\d+)$/);
+  assert(match, `Invalid note: ${note}`);
+  let [, name, accidental, octave] = match;
+  let semitone = _semitones[name] + (accidental === "#" ? 1 : accidental === "b" ? -1 : 0);
+  let distance = semitone - 9 + (Number(octave) - 4) * 12;
+  return 440 * 2 ** (distance / 12);
+}
+
+/**
+ * Returns the duration of a single row in a song (in seconds).
+ */
+export function songRowDuration(song: Song): number {
+  return 60 / song.bpm / (song.rowsPerBeat ?? 4);
+}
+
+/**
+ * Returns the number of rows in a song, which is the number of rows in its
+ * longest channel.
+ */
+export function songRows(song: Song): number {
+  let rows = song.channels.map(channel => channelRows(song, channel).length);
+  return Math.max(0, ...rows);
+}
+
+/**
+ * Returns the duration of a song (in seconds).
+ */
+export function songDuration(song: Song): number {
+  return songRows(song) * songRowDuration(song);
+}
+
+/**
+ * Renders a song to mono PCM samples between -1 and 1, so that songs can be
+ * played without an audio file, or tested without an audio device. Notes
+ * that are still decaying at the end of the song are cut off.
+ *
+ * Use {@link createSound} to turn the samples into a sound that can be
+ * played, or {@link playMusic} to play a song in a loop.
+ *
+ * @param song The song to render.
+ * @param sampleRate Samples per second (defaults to 44100).
+ */
+export function renderSong(song: Song, sampleRate: number = 44100): Float32Array {
+  let rowDuration = songRowDuration(song);
+  let length = Math.round(songRows(song) * rowDuration * sampleRate);
+  let output = new Float32Array(length);
+
+  for (let channel of song.channels) {
+    let instrument = song.instruments[channel.instrument];
+    assert(instrument, `Song has no instrument: ${channel.instrument}`);
+    let synth = createSynth(instrument);
+    let volume = channel.volume ?? 1;
+
+    for (let note of channelNotes(song, channel)) {
+      let held = note.rows * rowDuration;
+      let sustain = Math.max(0, held - synth.attack);
+      let samples = renderSynth({ ...synth, frequency: note.frequency, sustain }, sampleRate);
+      let start = Math.round(note.row * rowDuration * sampleRate);
+      let end = Math.min(length, start + samples.length);
+
+      for (let i = start; i < end; i++) {
+        output[i] += samples[i - start] * volume;
+      }
+    }
+  }
+
+  for (let i = 0; i < length; i++) {
+    output[i] = clamp(-1, 1, output[i]);
+  }
+
+  return output;
+}
+
+/**
+ * Returns every row that a channel plays, in order.
+ */
+function channelRows(song: Song, channel: SongChannel): string[] {
+  return channel.sequence.flatMap(name => {
+    let pattern = song.patterns[name];
+    assert(pattern != null, `Song has no pattern: ${name}`);
+    return pattern.split(/\s+/).filter(row => row);
+  });
+}
+
+/**
+ * Finds the notes that a channel plays, and how long each one is held for.
+ */
+function channelNotes(song: Song, channel: SongChannel): SongNote[] {
+  let notes: SongNote[] = [];
+  let current: SongNote | undefined;
+
+  channelRows(song, channel).forEach((row, index) => {
+    if (row === ".") {
+      if (current) current.rows++;
+    } else if (row === "-") {
+      current = undefined;
+    } else {
+      current = { row: index, rows: 1, frequency: noteFrequency(row) };
+      notes.push(current);
+    }
+  });
+
+  return notes;
+}
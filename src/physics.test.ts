@@ -0,0 +1,139 @@
+import { expect, test } from "vitest";
+import { createBody, moveBody, Terrain, TileShape } from "./physics";
+
+/**
+ * Creates terrain with 10x10 tiles from rows of characters.
+ */
+function createTerrain(...rows: string[]): Terrain {
+  let shapes: Record<string, TileShape> = {
+    "#": "solid",
+    "=": "platform",
+    "/": "slopeUp",
+    "\\": "slopeDown",
+  };
+
+  return {
+    tileWidth: 10,
+    tileHeight: 10,
+    tiles: rows.map(row => Array.from(row, char => shapes[char])),
+  };
+}
+
+test("moving against solid tiles", () => {
+  let terrain = createTerrain(
+    "######",
+    "#    #",
+    "#    #",
+    "#    #",
+    "######",
+  );
+
+  let body = createBody({ x: 10, y: 10, w: 8, h: 8 });
+  body.vy = 100;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 10, y: 32, vy: 0, grounded: true, wallLeft: true, wallRight: false });
+
+  body.vx = 100;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 42, y: 32, vx: 0, grounded: true, wallLeft: false, wallRight: true });
+
+  body.vy = -100;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ y: 10, vy: 0, grounded: false, ceiling: true });
+});
+
+test("sub-pixel movement", () => {
+  let terrain: Terrain = { tileWidth: 10, tileHeight: 10, tiles: () => false };
+  let body = createBody({ x: 0, y: 0, w: 8, h: 8 });
+  body.vx = 0.4;
+
+  moveBody(body, terrain);
+  expect(body.x).toBe(0);
+  moveBody(body, terrain);
+  expect(body.x).toBe(1);
+
+  for (let i = 0; i < 3; i++) moveBody(body, terrain);
+  expect(body.x).toBe(2);
+  expect(body.remainderX).toBeCloseTo(0);
+
+  // Velocity can be scaled for variable timesteps
+  moveBody(body, terrain, 10);
+  expect(body.x).toBe(6);
+});
+
+test("one-way platforms", () => {
+  let terrain = createTerrain(
+    "    ",
+    "====",
+    "    ",
+    "####",
+  );
+
+  // Landing on top of a platform
+  let body = createBody({ x: 0, y: 0, w: 8, h: 8 });
+  body.vy = 5;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ y: 2, grounded: true });
+
+  // Dropping through it
+  body.dropThrough = true;
+  body.vy = 5;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ y: 7, grounded: false });
+
+  // Jumping up through it
+  body = createBody({ x: 0, y: 22, w: 8, h: 8 });
+  body.vy = -20;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ y: 2, vy: -20, ceiling: false });
+});
+
+test("slopes", () => {
+  let terrain = createTerrain(
+    "      ",
+    "   /\\ ",
+    "######",
+  );
+
+  let body = createBody({ x: 20, y: 16, w: 4, h: 4 });
+  body.grounded = true;
+
+  // Walking up the slope
+  body.vx = 10;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 30, y: 12, grounded: true, wallRight: false });
+
+  body.vx = 6;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 36, y: 6, grounded: true });
+
+  // Walking down the other side
+  body.vx = 10;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 46, y: 12, grounded: true });
+
+  // Walking back down the first slope
+  body.vx = -20;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 26, y: 16, grounded: true });
+});
+
+test("moving in the air", () => {
+  let terrain = createTerrain(
+    "      ",
+    "  / ##",
+    "  /###",
+  );
+
+  // Bodies in the air are blocked by the top edges of walls
+  let body = createBody({ x: 30, y: 3, w: 8, h: 8 });
+  body.vx = 5;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 32, y: 3, vx: 0, grounded: false, wallRight: true });
+
+  // But they can still move up slopes
+  body = createBody({ x: 15, y: 15, w: 4, h: 4 });
+  body.vx = 3;
+  moveBody(body, terrain);
+  expect(body).toMatchObject({ x: 18, y: 14, vx: 3 });
+});
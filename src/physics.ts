@@ -0,0 +1,249 @@
+import type { Rectangle } from ".";
+
+/**
+ * The shape of a tile that bodies collide with.
+ *
+ * - `"solid"` (or `true`) blocks movement from every side.
+ * - `"platform"` is a one-way platform that only blocks bodies that land on
+ *   top of it.
+ * - `"slopeUp"` is a floor that rises from left to right (`/`).
+ * - `"slopeDown"` is a floor that falls from left to right (`\`).
+ *
+ * Empty tiles can be `undefined`, `false` or `null`.
+ */
+export type TileShape = "solid" | "platform" | "slopeUp" | "slopeDown" | boolean | null | undefined;
+
+/**
+ * A grid of tiles for bodies to move through with {@link moveBody}.
+ */
+export interface Terrain {
+  /**
+   * The width of each tile in pixels.
+   */
+  tileWidth: number;
+  /**
+   * The height of each tile in pixels.
+   */
+  tileHeight: number;
+  /**
+   * The tiles as a grid of rows, or a function that returns the shape of
+   * the tile at a column and row.
+   *
+   * ```ts
+   * let terrain: Terrain = {
+   *   tileWidth: 16,
+   *   tileHeight: 16,
+   *   tiles: (x, y) => tileProperties(map, x, y).solid === true,
+   * };
+   * ```
+   */
+  tiles: TileShape[][] | ((x: number, y: number) => TileShape);
+}
+
+/**
+ * A kinematic body that is moved through {@link Terrain} by its velocity.
+ * Positions are kept in whole pixels, and the fractions of a pixel that
+ * haven't been moved yet are stored in the remainders.
+ */
+export interface Body extends Rectangle {
+  /**
+   * Horizontal velocity in pixels per update.
+   */
+  vx: number;
+  /**
+   * Vertical velocity in pixels per update.
+   */
+  vy: number;
+  /**
+   * Horizontal movement that is less than a pixel.
+   */
+  remainderX: number;
+  /**
+   * Vertical movement that is less than a pixel.
+   */
+  remainderY: number;
+  /**
+   * Whether the body is standing on the ground, a platform or a slope.
+   */
+  grounded: boolean;
+  /**
+   * Whether the body is touching a wall on its left.
+   */
+  wallLeft: boolean;
+  /**
+   * Whether the body is touching a wall on its right.
+   */
+  wallRight: boolean;
+  /**
+   * Whether the body is touching a ceiling.
+   */
+  ceiling: boolean;
+  /**
+   * Set this to fall through one-way platforms.
+   */
+  dropThrough: boolean;
+}
+
+/**
+ * Creates a body that isn't moving.
+ */
+export function createBody({ x, y, w, h }: Rectangle): Body {
+  return {
+    x: Math.round(x),
+    y: Math.round(y),
+    w,
+    h,
+    vx: 0,
+    vy: 0,
+    remainderX: 0,
+    remainderY: 0,
+    grounded: false,
+    wallLeft: false,
+    wallRight: false,
+    ceiling: false,
+    dropThrough: false,
+  };
+}
+
+/**
+ * Moves a body by its velocity, one pixel at a time, so that it can't pass
+ * through tiles. The body moves horizontally first, then vertically, and
+ * the velocity on an axis is set to 0 when the body is blocked on that
+ * axis.
+ *
+ * Bodies walk up and down slopes, and stick to slopes as they walk down
+ * them. Grounded bodies can also step up small ledges, but bodies in the
+ * air are blocked by them. The contact flags (e.g. {@link Body.grounded})
+ * are updated after the body moves.
+ *
+ * ```ts
+ * body.vy += gravity;
+ * if (body.grounded && pressed("Space")) body.vy = -jumpSpeed;
+ * moveBody(body, terrain);
+ * ```
+ *
+ * @param body The body to move.
+ * @param terrain The tiles that the body collides with.
+ * @param dt Multiplier for the velocity (defaults to 1), for games that
+ * don't use a fixed timestep.
+ */
+export function moveBody(body: Body, terrain: Terrain, dt: number = 1) {
+  let wasGrounded = body.grounded;
+  // The height of slope that can be climbed for each pixel of movement
+  let climb = Math.ceil(terrain.tileHeight / terrain.tileWidth);
+
+  body.remainderX += body.vx * dt;
+  let dx = Math.round(body.remainderX);
+  body.remainderX -= dx;
+
+  for (let sign = Math.sign(dx); dx !== 0; dx -= sign) {
+    let rise = stepHeight(body, terrain, sign, climb, wasGrounded);
+
+    if (rise === undefined) {
+      body.vx = 0;
+      body.remainderX = 0;
+      break;
+    }
+
+    body.x += sign;
+    body.y -= rise;
+
+    // Stick to the ground when walking down a slope
+    if (wasGrounded && rise === 0 && body.vy >= 0 && !collides(body, terrain, body.x, body.y + 1)) {
+      for (let drop = 1; drop <= climb; drop++) {
+        if (collides(body, terrain, body.x, body.y + drop + 1)) {
+          body.y += drop;
+          break;
+        }
+      }
+    }
+  }
+
+  body.remainderY += body.vy * dt;
+  let dy = Math.round(body.remainderY);
+  body.remainderY -= dy;
+
+  for (let sign = Math.sign(dy); dy !== 0; dy -= sign) {
+    if (collides(body, terrain, body.x, body.y + sign)) {
+      body.vy = 0;
+      body.remainderY = 0;
+      break;
+    }
+
+    body.y += sign;
+  }
+
+  body.grounded = body.vy >= 0 && collides(body, terrain, body.x, body.y + 1);
+  body.ceiling = collides(body, terrain, body.x, body.y - 1);
+  body.wallLeft = stepHeight(body, terrain, -1, climb, body.grounded) === undefined;
+  body.wallRight = stepHeight(body, terrain, 1, climb, body.grounded) === undefined;
+}
+
+/**
+ * Returns the height that a body needs to rise to move one pixel
+ * horizontally, or undefined if it can't move. Bodies that aren't grounded
+ * can only rise up slopes, so that they don't snap onto the tops of walls.
+ */
+function stepHeight(
+  body: Body,
+  terrain: Terrain,
+  sign: number,
+  climb: number,
+  grounded: boolean,
+): number | undefined {
+  for (let rise = 0; rise <= climb; rise++) {
+    if (!collides(body, terrain, body.x + sign, body.y - rise)) {
+      return rise;
+    }
+
+    if (!grounded && collides(body, terrain, body.x + sign, body.y - rise, false)) {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks whether a body would collide with any tiles if it moved to a
+ * position. One-way platforms only collide with bodies that are currently
+ * above them.
+ *
+ * @param slopes Whether slopes are checked (defaults to true).
+ */
+function collides(body: Body, terrain: Terrain, x: number, y: number, slopes: boolean = true): boolean {
+  let { tileWidth, tileHeight } = terrain;
+  let right = x + body.w;
+  let bottom = y + body.h;
+
+  for (let row = Math.floor(y / tileHeight); row < Math.ceil(bottom / tileHeight); row++) {
+    for (let col = Math.floor(x / tileWidth); col < Math.ceil(right / tileWidth); col++) {
+      let tile = getTileShape(terrain, col, row);
+      let left = col * tileWidth;
+      let top = row * tileHeight;
+
+      if (tile === true || tile === "solid") {
+        return true;
+      } else if (tile === "platform") {
+        if (!body.dropThrough && body.y + body.h <= top && bottom > top) return true;
+      } else if (!slopes) {
+        continue;
+      } else if (tile === "slopeUp") {
+        // The highest part of the slope under the body is at its right edge
+        let offset = Math.min(right, left + tileWidth) - left;
+        if (bottom > top + tileHeight - offset * tileHeight / tileWidth) return true;
+      } else if (tile === "slopeDown") {
+        // The highest part of the slope under the body is at its left edge
+        let offset = Math.max(x, left) - left;
+        if (bottom > top + offset * tileHeight / tileWidth) return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function getTileShape(terrain: Terrain, x: number, y: number): TileShape {
+  let { tiles } = terrain;
+  return typeof tiles === "function" ? tiles(x, y) : tiles[y]?.[x];
+}
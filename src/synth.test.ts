@@ -0,0 +1,57 @@
+import { expect, test } from "vitest";
+import { createSynth, decodeSynth, encodeSynth, renderSynth, synthPreset } from "./synth";
+
+test("rendering", () => {
+  let samples = renderSynth({ attack: 0.1, sustain: 0.2, decay: 0.3 }, 1000);
+  expect(samples).toHaveLength(600);
+  expect(samples.every(sample => sample >= -1 && sample <= 1)).toBe(true);
+
+  // Rendering is deterministic, including noise
+  let noise = { wave: "noise", slide: -1 } as const;
+  expect(renderSynth(noise)).toEqual(renderSynth(noise));
+});
+
+test("square waves", () => {
+  // 10 cycles per second at 100 samples per second is 10 samples per cycle
+  let samples = renderSynth({ frequency: 10, duty: 0.3, sustain: 1, decay: 0, volume: 1 }, 100);
+  expect([...samples.slice(0, 10)]).toEqual([1, 1, 1, -1, -1, -1, -1, -1, -1, -1]);
+});
+
+test("envelopes", () => {
+  let samples = renderSynth({ wave: "sine", frequency: 25, attack: 1, sustain: 1, punch: 1, decay: 1, volume: 0.5 }, 100);
+  let peak = (from: number) => Math.max(...samples.slice(from, from + 4));
+
+  // Punch doubles the volume at the start of the sustain, then fades out
+  expect(peak(0)).toBeLessThan(0.05);
+  expect(peak(100)).toBeCloseTo(1, 1);
+  expect(peak(200)).toBeCloseTo(0.5, 1);
+  expect(peak(296)).toBeLessThan(0.05);
+});
+
+test("sliding below the min frequency", () => {
+  // Halving the frequency takes 1s, so it drops below 50Hz after 1s
+  let samples = renderSynth({ frequency: 100, slide: -1, minFrequency: 50, sustain: 2, decay: 0 }, 100);
+  expect(samples).toHaveLength(101);
+});
+
+test("presets", () => {
+  expect(synthPreset("jump", 1)).toEqual(synthPreset("jump", 1));
+  expect(synthPreset("jump", 1)).not.toEqual(synthPreset("jump", 2));
+  expect(synthPreset("explosion").wave).toBe("noise");
+  expect(synthPreset("jump").slide).toBeGreaterThan(0);
+});
+
+test("encoding", () => {
+  expect(encodeSynth({})).toBe("0");
+  expect(encodeSynth({ frequency: 880, slide: -2 })).toBe("0,880,0,-2");
+  expect(encodeSynth({ wave: "noise", volume: 0.25 })).toBe("3,440,0,0,0,0,0,1,0,0.5,0,0,0.1,0,0.2,0.25");
+  expect(decodeSynth("0,880,0,-2")).toEqual(createSynth({ frequency: 880, slide: -2 }));
+
+  let laser = synthPreset("laser", 3);
+  let decoded = decodeSynth(encodeSynth(laser));
+  expect(decoded.wave).toBe(laser.wave);
+  expect(decoded.frequency).toBeCloseTo(laser.frequency, 3);
+
+  expect(() => decodeSynth("9")).toThrow(/Invalid waveform/);
+  expect(() => decodeSynth("0,loud")).toThrow(/Invalid synth parameter/);
+});
@@ -0,0 +1,377 @@
+import { assert, clamp } from "./utils";
+
+/**
+ * The oscillator shapes that the synthesizer can play.
+ */
+export type Waveform = "square" | "saw" | "sine" | "noise";
+
+/**
+ * Parameters for a synthesized sound effect, in the style of
+ * [sfxr](https://www.drpetter.se/project_sfxr.html). Times are in seconds
+ * and frequencies are in hertz.
+ */
+export interface SynthParams {
+  /**
+   * The shape of the oscillator.
+   */
+  wave: Waveform;
+  /**
+   * The starting frequency.
+   */
+  frequency: number;
+  /**
+   * The sound stops early if a slide takes the frequency below this.
+   */
+  minFrequency: number;
+  /**
+   * How fast the frequency changes, in octaves per second.
+   */
+  slide: number;
+  /**
+   * How fast the slide changes, in octaves per second per second.
+   */
+  deltaSlide: number;
+  /**
+   * How far vibrato moves the frequency, as a fraction of the frequency.
+   */
+  vibratoDepth: number;
+  /**
+   * How many times per second vibrato moves the frequency up and down.
+   */
+  vibratoSpeed: number;
+  /**
+   * The frequency is multiplied by this after {@link arpeggioTime}.
+   */
+  arpeggio: number;
+  /**
+   * When the arpeggio changes the frequency (0 to disable it).
+   */
+  arpeggioTime: number;
+  /**
+   * The fraction of each cycle that a square wave is high (0.05 to 0.95).
+   */
+  duty: number;
+  /**
+   * How fast the duty changes, per second.
+   */
+  dutySweep: number;
+  /**
+   * How long the volume takes to rise at the start of the sound.
+   */
+  attack: number;
+  /**
+   * How long the volume holds after the attack.
+   */
+  sustain: number;
+  /**
+   * Extra volume at the start of the sustain, which fades out over the
+   * sustain (0 to 1).
+   */
+  punch: number;
+  /**
+   * How long the volume takes to fall at the end of the sound.
+   */
+  decay: number;
+  /**
+   * The overall volume (0 to 1).
+   */
+  volume: number;
+}
+
+/**
+ * Names of the sound effects that {@link synthPreset} can generate.
+ */
+export type SynthPreset =
+  | "pickup"
+  | "laser"
+  | "explosion"
+  | "powerup"
+  | "hit"
+  | "jump"
+  | "blip";
+
+/**
+ * Default values for each parameter. A 440Hz square wave beep.
+ */
+let _defaultParams: SynthParams = {
+  wave: "square",
+  frequency: 440,
+  minFrequency: 0,
+  slide: 0,
+  deltaSlide: 0,
+  vibratoDepth: 0,
+  vibratoSpeed: 0,
+  arpeggio: 1,
+  arpeggioTime: 0,
+  duty: 0.5,
+  dutySweep: 0,
+  attack: 0,
+  sustain: 0.1,
+  punch: 0,
+  decay: 0.2,
+  volume: 0.5,
+};
+
+/**
+ * Waveforms by the number that they are encoded as.
+ */
+let _waveforms: Waveform[] = ["square", "saw", "sine", "noise"];
+
+/**
+ * The order that numeric parameters are encoded in (after the waveform). New
+ * parameters must be added to the end, so that old strings can still be
+ * decoded.
+ */
+let _encodedKeys: Exclude<keyof SynthParams, "wave">[] = [
+  "frequency",
+  "minFrequency",
+  "slide",
+  "deltaSlide",
+  "vibratoDepth",
+  "vibratoSpeed",
+  "arpeggio",
+  "arpeggioTime",
+  "duty",
+  "dutySweep",
+  "attack",
+  "sustain",
+  "punch",
+  "decay",
+  "volume",
+];
+
+/**
+ * Creates a full set of synth parameters, using defaults for any that are
+ * missing.
+ */
+export function createSynth(params: Partial<SynthParams> = {}): SynthParams {
+  return { ..._defaultParams, ...params };
+}
+
+/**
+ * Renders a sound effect to mono PCM samples between -1 and 1. The same
+ * parameters always render the same samples.
+ *
+ * Use {@link createSound} to turn the samples into a sound that can be
+ * played.
+ *
+ * @param params The parameters for the sound (see {@link SynthParams}).
+ * @param sampleRate Samples per second (defaults to 44100).
+ */
+export function renderSynth(
+  params: Partial<SynthParams>,
+  sampleRate: number = 44100,
+): Float32Array {
+  let synth = createSynth(params);
+  let { attack, sustain, decay } = synth;
+  let length = Math.round((attack + sustain + decay) * sampleRate);
+  let samples = new Float32Array(length);
+  let noise = createRandom(1);
+  let noiseValue = 0;
+  let noiseStep = -1;
+  let phase = 0;
+
+  for (let i = 0; i < length; i++) {
+    let t = i / sampleRate;
+    let frequency = synth.frequency * 2 ** (synth.slide * t + synth.deltaSlide * t * t / 2);
+
+    if (frequency < synth.minFrequency) {
+      return samples.slice(0, i);
+    }
+
+    if (synth.arpeggioTime > 0 && t >= synth.arpeggioTime) {
+      frequency *= synth.arpeggio;
+    }
+
+    if (synth.vibratoDepth) {
+      frequency *= 1 + Math.sin(t * synth.vibratoSpeed * Math.PI * 2) * synth.vibratoDepth;
+    }
+
+    let value = 0;
+
+    switch (synth.wave) {
+      case "square":
+        value = phase < clamp(0.05, 0.95, synth.duty + synth.dutySweep * t) ? 1 : -1;
+        break;
+      case "saw":
+        value = 1 - phase * 2;
+        break;
+      case "sine":
+        value = Math.sin(phase * Math.PI * 2);
+        break;
+      case "noise": {
+        // Pick a new random value 32 times per cycle, so that noise still
+        // sounds higher or lower with the frequency.
+        let step = Math.floor(phase * 32);
+        if (step !== noiseStep) noiseValue = noise() * 2 - 1;
+        noiseStep = step;
+        value = noiseValue;
+        break;
+      }
+    }
+
+    samples[i] = clamp(-1, 1, value * envelope(synth, t) * synth.volume);
+    phase = (phase + frequency / sampleRate) % 1;
+  }
+
+  return samples;
+}
+
+/**
+ * Generates the parameters for a common type of sound effect. Each seed
+ * generates a different variation.
+ *
+ * @param preset The type of sound effect.
+ * @param seed The seed for the random variation (defaults to 0).
+ */
+export function synthPreset(preset: SynthPreset, seed: number = 0): SynthParams {
+  let random = createRandom(seed);
+  let between = (min: number, max: number) => min + random() * (max - min);
+
+  switch (preset) {
+    case "pickup":
+      return createSynth({
+        frequency: between(700, 1400),
+        sustain: between(0.02, 0.07),
+        decay: between(0.1, 0.25),
+        punch: between(0.3, 0.6),
+        arpeggio: random() < 0.5 ? between(1.3, 1.8) : 1,
+        arpeggioTime: between(0.04, 0.09),
+      });
+
+    case "laser":
+      return createSynth({
+        wave: _waveforms[Math.floor(random() * 3)],
+        frequency: between(500, 1500),
+        minFrequency: 100,
+        slide: -between(2, 8),
+        duty: between(0.2, 0.7),
+        dutySweep: between(0, 0.5),
+        sustain: between(0.05, 0.15),
+        decay: between(0.05, 0.25),
+      });
+
+    case "explosion":
+      return createSynth({
+        wave: "noise",
+        frequency: between(80, 280),
+        slide: -between(0, 2),
+        vibratoDepth: random() < 0.5 ? between(0, 0.3) : 0,
+        vibratoSpeed: between(5, 25),
+        sustain: between(0.1, 0.4),
+        decay: between(0.3, 0.7),
+        punch: between(0.2, 0.8),
+      });
+
+    case "powerup":
+      return createSynth({
+        wave: random() < 0.5 ? "saw" : "square",
+        frequency: between(300, 600),
+        slide: between(0.5, 2.5),
+        vibratoDepth: between(0, 0.2),
+        vibratoSpeed: between(10, 25),
+        sustain: between(0.1, 0.3),
+        decay: between(0.1, 0.4),
+      });
+
+    case "hit":
+      return createSynth({
+        wave: random() < 0.5 ? "noise" : "square",
+        frequency: between(200, 600),
+        slide: -between(3, 7),
+        duty: between(0.2, 0.6),
+        sustain: between(0.01, 0.06),
+        decay: between(0.05, 0.2),
+        punch: between(0, 0.5),
+      });
+
+    case "jump":
+      return createSynth({
+        frequency: between(250, 550),
+        slide: between(1.5, 4),
+        duty: between(0.1, 0.7),
+        sustain: between(0.05, 0.15),
+        decay: between(0.1, 0.3),
+      });
+
+    case "blip":
+      return createSynth({
+        wave: random() < 0.5 ? "square" : "sine",
+        frequency: between(400, 1200),
+        duty: between(0.1, 0.6),
+        sustain: between(0.02, 0.07),
+        decay: between(0.01, 0.06),
+      });
+  }
+}
+
+/**
+ * Encodes synth parameters as a short string that can be shared and decoded
+ * with {@link decodeSynth}. Parameters are written as a list of numbers, and
+ * trailing parameters with default values are left out.
+ *
+ * ```ts
+ * encodeSynth({ frequency: 880, slide: -2 }); // "0,880,0,-2"
+ * ```
+ */
+export function encodeSynth(params: Partial<SynthParams>): string {
+  let synth = createSynth(params);
+  let values = [_waveforms.indexOf(synth.wave)];
+  let defaults = [_waveforms.indexOf(_defaultParams.wave)];
+
+  for (let key of _encodedKeys) {
+    values.push(Number(synth[key].toFixed(4)));
+    defaults.push(_defaultParams[key]);
+  }
+
+  while (values.length > 1 && values[values.length - 1] === defaults[values.length - 1]) {
+    values.pop();
+  }
+
+  return values.join(",");
+}
+
+/**
+ * Decodes synth parameters from a string that was created with
+ * {@link encodeSynth}.
+ */
+export function decodeSynth(encoded: string): SynthParams {
+  let synth = createSynth();
+  let [wave, ...values] = encoded.split(",").map(Number);
+  assert(_waveforms[wave], `Invalid waveform: ${wave}`);
+  synth.wave = _waveforms[wave];
+
+  _encodedKeys.forEach((key, index) => {
+    let value = values[index];
+    if (value == null) return;
+    assert(Number.isFinite(value), `Invalid synth parameter: ${key}`);
+    synth[key] = value;
+  });
+
+  return synth;
+}
+
+/**
+ * Returns the volume of a sound's envelope at a given time.
+ */
+function envelope(synth: SynthParams, t: number): number {
+  let { attack, sustain, punch, decay } = synth;
+  if (t < attack) return t / attack;
+  t -= attack;
+  if (t < sustain) return 1 + (1 - t / sustain) * punch;
+  t -= sustain;
+  return decay > 0 ? Math.max(0, 1 - t / decay) : 0;
+}
+
+/**
+ * Creates a seeded random number generator ([mulberry32](https://gist.github.com/tommyettinger/46a874533244883189143505d203312c)),
+ * so that sounds are the same every time they are generated.
+ */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = seed + 0x6D2B79F5 | 0;
+    let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
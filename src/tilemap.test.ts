@@ -0,0 +1,157 @@
+import { expect, test } from "vitest";
+import { addLayer, createTilemap, getLayer, getTile, importTiled, setTile, tileProperties, TiledMap, _chunkRevision } from "./tilemap";
+
+let sheet = {
+  grass: { url: "tiles.png", x: 0, y: 0, w: 8, h: 8 },
+  water: { url: "tiles.png", x: 8, y: 0, w: 8, h: 8 },
+};
+
+test("tiles", () => {
+  let map = createTilemap({ sheet, width: 3, height: 2, tileWidth: 8, tileHeight: 8 });
+  expect(map.layers.map(layer => layer.name)).toEqual(["main"]);
+  expect(getTile(map, 0, 0)).toBe(undefined);
+
+  setTile(map, 2, 1, "water");
+  expect(getTile(map, 2, 1)).toBe("water");
+  expect(map.layers[0].tiles).toEqual([
+    undefined, undefined, undefined,
+    undefined, undefined, "water",
+  ]);
+
+  // Positions outside the map are ignored
+  setTile(map, 3, 0, "water");
+  expect(getTile(map, 3, 0)).toBe(undefined);
+  expect(getTile(map, -1, 0)).toBe(undefined);
+});
+
+test("tile layers", () => {
+  let map = createTilemap({ sheet, width: 2, height: 2, tileWidth: 8, tileHeight: 8, layers: ["ground", "walls"] });
+  let decor = addLayer(map, "decor");
+  expect(getLayer(map, 2)).toBe(decor);
+  expect(getLayer(map, "walls")).toBe(map.layers[1]);
+  expect(() => getLayer(map, "sky")).toThrow(/no layer: sky/);
+
+  setTile(map, 0, 0, "grass", "ground");
+  setTile(map, 0, 0, "water", 1);
+  expect(getTile(map, 0, 0, "ground")).toBe("grass");
+  expect(getTile(map, 0, 0, "walls")).toBe("water");
+  expect(getTile(map, 0, 0, "decor")).toBe(undefined);
+});
+
+test("chunk revisions", () => {
+  let map = createTilemap({ sheet, width: 4, height: 4, tileWidth: 8, tileHeight: 8, chunkSize: 2 });
+  let [layer] = map.layers;
+  expect(_chunkRevision(layer, 0)).toBe(0);
+
+  setTile(map, 1, 1, "grass");
+  expect(_chunkRevision(layer, 0)).toBe(1);
+  expect(_chunkRevision(layer, 3)).toBe(0);
+
+  setTile(map, 3, 2, "grass");
+  expect(_chunkRevision(layer, 3)).toBe(1);
+
+  // Setting a tile to the same value doesn't invalidate the chunk
+  setTile(map, 3, 2, "grass");
+  expect(_chunkRevision(layer, 3)).toBe(1);
+});
+
+let tiled: TiledMap = {
+  width: 2,
+  height: 2,
+  tilewidth: 16,
+  tileheight: 16,
+  properties: [{ name: "music", type: "string", value: "forest" }],
+  tilesets: [
+    {
+      firstgid: 1,
+      image: "../images/tiles.png",
+      columns: 2,
+      tilecount: 4,
+      tilewidth: 16,
+      tileheight: 16,
+      margin: 1,
+      spacing: 2,
+      tiles: [{ id: 1, properties: [{ name: "solid", type: "bool", value: true }] }],
+    },
+    {
+      firstgid: 5,
+      tiles: [{ id: 0, image: "tree.png", imagewidth: 16, imageheight: 32 }],
+    },
+  ],
+  layers: [
+    {
+      type: "tilelayer",
+      name: "ground",
+      data: [1, 2, 0, 0x80000003],
+      opacity: 0.5,
+      properties: [{ name: "depth", type: "int", value: 2 }],
+    },
+    {
+      type: "group",
+      name: "details",
+      layers: [
+        {
+          type: "tilelayer",
+          name: "trees",
+          visible: false,
+          encoding: "base64",
+          // Little endian [0, 5, 0, 0]
+          data: "AAAAAAUAAAAAAAAAAAAAAA==",
+        },
+      ],
+    },
+    {
+      type: "objectgroup",
+      name: "spawns",
+      objects: [
+        { id: 1, name: "player", type: "spawn", x: 8, y: 8, point: true },
+        { id: 2, class: "door", x: 16, y: 32, width: 16, height: 16, gid: 2 },
+        { id: 3, x: 0, y: 0, polygon: [{ x: 0, y: 0 }, { x: 8, y: 8 }, { x: 0, y: 8 }] },
+        { id: 4, x: 0, y: 0, width: 4, height: 6, properties: [{ name: "damage", value: 3 }] },
+      ],
+    },
+  ],
+};
+
+test("importing tiled maps", () => {
+  let map = importTiled(tiled, { "../images/tiles.png": "/assets/tiles.png" });
+  expect(map.width).toBe(2);
+  expect(map.tileWidth).toBe(16);
+  expect(map.properties).toEqual({ music: "forest" });
+
+  expect(map.sheet["1"]).toEqual({ url: "/assets/tiles.png", x: 1, y: 1, w: 16, h: 16 });
+  expect(map.sheet["2"]).toEqual({ url: "/assets/tiles.png", x: 19, y: 1, w: 16, h: 16 });
+  expect(map.sheet["4"]).toEqual({ url: "/assets/tiles.png", x: 19, y: 19, w: 16, h: 16 });
+  expect(map.sheet["5"]).toEqual({ url: "tree.png", x: 0, y: 0, w: 16, h: 32 });
+
+  let [ground, trees] = map.layers;
+  expect(ground.tiles).toEqual(["1", "2", undefined, "3"]);
+  expect(ground.alpha).toBe(0.5);
+  expect(ground.properties).toEqual({ depth: 2 });
+  expect(trees.name).toBe("trees");
+  expect(trees.visible).toBe(false);
+  expect(trees.tiles).toEqual([undefined, "5", undefined, undefined]);
+
+  expect(tileProperties(map, 1, 0)).toEqual({ solid: true });
+  expect(tileProperties(map, 0, 0)).toEqual({});
+});
+
+test("importing tiled objects", () => {
+  let map = importTiled(tiled);
+  let [spawns] = map.objectLayers;
+  let [player, door, polygon, trap] = spawns.objects;
+  expect(spawns.name).toBe("spawns");
+
+  expect(player).toMatchObject({ name: "player", type: "spawn", shape: "point", x: 8, y: 8 });
+  expect(polygon.shape).toBe("polygon");
+  expect(polygon.points).toHaveLength(3);
+  expect(trap).toMatchObject({ shape: "rectangle", w: 4, h: 6, properties: { damage: 3 } });
+
+  // Tile objects are moved from their bottom left corner to the top left
+  expect(door).toMatchObject({ type: "door", shape: "tile", tile: "2", x: 16, y: 16 });
+});
+
+test("unsupported tiled maps", () => {
+  expect(() => importTiled({ ...tiled, infinite: true })).toThrow(/Infinite/);
+  expect(() => importTiled({ ...tiled, tilesets: [{ firstgid: 1, source: "tiles.tsj" }] })).toThrow(/External/);
+});
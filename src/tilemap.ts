@@ -0,0 +1,582 @@
+import type { Point, Rectangle, Sprite, SpriteSheet } from ".";
+import { assert } from "./utils";
+
+/**
+ * Custom properties for maps, layers, objects and tiles.
+ */
+export type Properties = Record<string, string | number | boolean>;
+
+/**
+ * A grid of tiles in a {@link Tilemap}.
+ */
+export interface TileLayer {
+  /**
+   * The name of the layer.
+   */
+  name: string;
+  /**
+   * The id of the sprite for each tile, row by row. Empty tiles are
+   * undefined.
+   *
+   * Use {@link setTile} to change tiles, so that cached chunks are redrawn.
+   */
+  tiles: (string | undefined)[];
+  /**
+   * Hidden layers are skipped when the tilemap is drawn.
+   */
+  visible: boolean;
+  /**
+   * Opacity between 0 and 1.
+   */
+  alpha: number;
+  /**
+   * Custom properties for the layer.
+   */
+  properties: Properties;
+}
+
+/**
+ * A shape that was placed in an object layer.
+ */
+export interface MapObject extends Rectangle {
+  id: number;
+  name: string;
+  /**
+   * The object's type (or class in newer versions of Tiled).
+   */
+  type: string;
+  /**
+   * The kind of shape that the object has.
+   */
+  shape: "rectangle" | "ellipse" | "point" | "polygon" | "polyline" | "tile";
+  /**
+   * Clockwise rotation in degrees.
+   */
+  rotation: number;
+  visible: boolean;
+  /**
+   * Sprite id for tile objects.
+   */
+  tile: string | undefined;
+  /**
+   * Points (relative to the object's position) for polygons and polylines.
+   */
+  points: Point[] | undefined;
+  /**
+   * Custom properties for the object.
+   */
+  properties: Properties;
+}
+
+/**
+ * A layer of free positioned objects, such as spawn points and triggers.
+ */
+export interface ObjectLayer {
+  name: string;
+  objects: MapObject[];
+  visible: boolean;
+  properties: Properties;
+}
+
+/**
+ * A grid based map, made from layers of tiles where each tile is a sprite
+ * from a sprite sheet.
+ *
+ * Create empty tilemaps with {@link createTilemap} or import them from Tiled
+ * with {@link importTiled}.
+ */
+export interface Tilemap {
+  /**
+   * Sprites for each tile id.
+   */
+  sheet: SpriteSheet;
+  /**
+   * The width of the map (in tiles).
+   */
+  width: number;
+  /**
+   * The height of the map (in tiles).
+   */
+  height: number;
+  /**
+   * The width of each tile (in pixels).
+   */
+  tileWidth: number;
+  /**
+   * The height of each tile (in pixels).
+   */
+  tileHeight: number;
+  /**
+   * The width and height of the chunks (in tiles) that the map is cached in
+   * when it is drawn.
+   */
+  chunkSize: number;
+  /**
+   * Tile layers, from bottom to top.
+   */
+  layers: TileLayer[];
+  /**
+   * Object layers, from bottom to top.
+   */
+  objectLayers: ObjectLayer[];
+  /**
+   * Custom properties for each tile id.
+   */
+  tileProperties: Record<string, Properties>;
+  /**
+   * Custom properties for the map.
+   */
+  properties: Properties;
+}
+
+/**
+ * Options for {@link createTilemap}.
+ */
+export interface TilemapOptions {
+  sheet: SpriteSheet;
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  /**
+   * The size of the cached chunks (in tiles). Defaults to 16.
+   */
+  chunkSize?: number;
+  /**
+   * The names of the tile layers to create. Defaults to a single layer
+   * called `"main"`.
+   */
+  layers?: string[];
+}
+
+/**
+ * Chunk revisions for each layer. Each revision is bumped when a tile in the
+ * chunk changes, so that renderers know when their cached copy is stale.
+ */
+let _revisions = new WeakMap<TileLayer, number[]>();
+
+/**
+ * Creates an empty tilemap.
+ */
+export function createTilemap({
+  sheet,
+  width,
+  height,
+  tileWidth,
+  tileHeight,
+  chunkSize = 16,
+  layers = ["main"],
+}: TilemapOptions): Tilemap {
+  let map: Tilemap = {
+    sheet,
+    width,
+    height,
+    tileWidth,
+    tileHeight,
+    chunkSize,
+    layers: [],
+    objectLayers: [],
+    tileProperties: {},
+    properties: {},
+  };
+
+  for (let name of layers) {
+    addLayer(map, name);
+  }
+
+  return map;
+}
+
+/**
+ * Adds an empty tile layer on top of the map's other layers.
+ */
+export function addLayer(map: Tilemap, name: string): TileLayer {
+  let layer: TileLayer = {
+    name,
+    tiles: new Array(map.width * map.height).fill(undefined),
+    visible: true,
+    alpha: 1,
+    properties: {},
+  };
+
+  map.layers.push(layer);
+  return layer;
+}
+
+/**
+ * Finds a tile layer by index or by name.
+ */
+export function getLayer(map: Tilemap, layer: number | string): TileLayer {
+  let found = typeof layer === "number"
+    ? map.layers[layer]
+    : map.layers.find(other => other.name === layer);
+  assert(found, `Tilemap has no layer: ${layer}`);
+  return found;
+}
+
+/**
+ * Returns the sprite id of the tile at a position, or undefined if the tile
+ * is empty or outside the map.
+ *
+ * @param map The tilemap.
+ * @param x The column of the tile.
+ * @param y The row of the tile.
+ * @param layer The index or name of the layer (defaults to the first).
+ */
+export function getTile(
+  map: Tilemap,
+  x: number,
+  y: number,
+  layer: number | string = 0,
+): string | undefined {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return;
+  return getLayer(map, layer).tiles[x + y * map.width];
+}
+
+/**
+ * Changes the tile at a position. Positions outside the map are ignored.
+ *
+ * @param map The tilemap.
+ * @param x The column of the tile.
+ * @param y The row of the tile.
+ * @param tile The sprite id for the tile, or undefined to clear it.
+ * @param layer The index or name of the layer (defaults to the first).
+ */
+export function setTile(
+  map: Tilemap,
+  x: number,
+  y: number,
+  tile: string | undefined,
+  layer: number | string = 0,
+) {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return;
+  let target = getLayer(map, layer);
+  let index = x + y * map.width;
+  if (target.tiles[index] === tile) return;
+  target.tiles[index] = tile;
+
+  let chunk = chunkIndex(map, x, y);
+  let revisions = _revisions.get(target) || [];
+  revisions[chunk] = (revisions[chunk] ?? 0) + 1;
+  _revisions.set(target, revisions);
+}
+
+/**
+ * Returns the custom properties for the tile at a position.
+ */
+export function tileProperties(
+  map: Tilemap,
+  x: number,
+  y: number,
+  layer: number | string = 0,
+): Properties {
+  let tile = getTile(map, x, y, layer);
+  return (tile != null && map.tileProperties[tile]) || {};
+}
+
+/**
+ * Returns the index of the chunk that contains the tile at a position.
+ */
+function chunkIndex(map: Tilemap, x: number, y: number): number {
+  let columns = Math.ceil(map.width / map.chunkSize);
+  return Math.floor(x / map.chunkSize) + Math.floor(y / map.chunkSize) * columns;
+}
+
+/**
+ * Returns the revision of a chunk in a layer. The revision changes whenever
+ * a tile inside the chunk is changed with {@link setTile}.
+ *
+ * @internal
+ */
+export function _chunkRevision(layer: TileLayer, chunk: number): number {
+  return _revisions.get(layer)?.[chunk] ?? 0;
+}
+
+/**
+ * ----------
+ * Tiled Maps
+ * ----------
+ */
+
+/**
+ * A custom property in Tiled's JSON format.
+ */
+export interface TiledProperty {
+  name: string;
+  type?: string;
+  value: string | number | boolean;
+}
+
+/**
+ * A tileset in Tiled's JSON format. Tilesets must be embedded in the map.
+ */
+export interface TiledTileset {
+  firstgid: number;
+  name?: string;
+  image?: string;
+  columns?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  margin?: number;
+  spacing?: number;
+  tilecount?: number;
+  source?: string;
+  tiles?: {
+    id: number;
+    image?: string;
+    imagewidth?: number;
+    imageheight?: number;
+    properties?: TiledProperty[];
+  }[];
+}
+
+/**
+ * An object in Tiled's JSON format.
+ */
+export interface TiledObject {
+  id: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;
+  visible?: boolean;
+  gid?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: Point[];
+  polyline?: Point[];
+  properties?: TiledProperty[];
+}
+
+/**
+ * A layer in Tiled's JSON format.
+ */
+export interface TiledLayer {
+  type: "tilelayer" | "objectgroup" | "imagelayer" | "group";
+  name: string;
+  visible?: boolean;
+  opacity?: number;
+  data?: number[] | string;
+  encoding?: "csv" | "base64";
+  compression?: string;
+  chunks?: unknown[];
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+  properties?: TiledProperty[];
+}
+
+/**
+ * A map in Tiled's JSON format.
+ */
+export interface TiledMap {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite?: boolean;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+/**
+ * Tiled stores flip flags in the highest bits of each tile id.
+ */
+let TILED_FLAGS = 0xF0000000;
+
+/**
+ * Imports a map that was exported from [Tiled](https://www.mapeditor.org/)
+ * in its JSON format.
+ *
+ * Sprites are created for every tile in the map's tilesets, and the sprite
+ * ids are Tiled's global tile ids (as strings). Tile layers, object layers,
+ * and the layers inside groups are imported, and custom properties are kept
+ * for the map, layers, objects and tiles.
+ *
+ * Tiled's flip flags are ignored, so flipped tiles are imported unflipped.
+ *
+ * @param json The exported map.
+ * @param images Urls for the images in the map's tilesets, by the path that
+ * Tiled saved. Paths without a url are used as urls.
+ * @param chunkSize The size of the cached chunks (in tiles).
+ */
+export function importTiled(
+  json: TiledMap,
+  images: Record<string, string> = {},
+  chunkSize?: number,
+): Tilemap {
+  assert(!json.infinite, "Infinite Tiled maps are not supported");
+
+  let sheet: SpriteSheet = {};
+  let map = createTilemap({
+    sheet,
+    width: json.width,
+    height: json.height,
+    tileWidth: json.tilewidth,
+    tileHeight: json.tileheight,
+    chunkSize,
+    layers: [],
+  });
+
+  map.properties = importProperties(json.properties);
+
+  for (let tileset of json.tilesets) {
+    assert(!tileset.source, `External Tiled tilesets are not supported: ${tileset.source}`);
+    importTileset(map, tileset, images);
+  }
+
+  let importLayers = (layers: TiledLayer[]) => {
+    for (let layer of layers) {
+      if (layer.type === "tilelayer") {
+        let target = addLayer(map, layer.name);
+        target.visible = layer.visible ?? true;
+        target.alpha = layer.opacity ?? 1;
+        target.properties = importProperties(layer.properties);
+        target.tiles = decodeTiles(layer).map(gid => {
+          gid &= ~TILED_FLAGS;
+          return gid ? String(gid) : undefined;
+        });
+      } else if (layer.type === "objectgroup") {
+        map.objectLayers.push({
+          name: layer.name,
+          visible: layer.visible ?? true,
+          properties: importProperties(layer.properties),
+          objects: (layer.objects || []).map(importObject),
+        });
+      } else if (layer.type === "group") {
+        importLayers(layer.layers || []);
+      }
+    }
+  };
+
+  importLayers(json.layers);
+  return map;
+}
+
+/**
+ * Adds sprites (and tile properties) for each of the tiles in a tileset.
+ */
+function importTileset(
+  map: Tilemap,
+  tileset: TiledTileset,
+  images: Record<string, string>,
+) {
+  let {
+    firstgid,
+    image,
+    columns = 0,
+    tilecount = 0,
+    tilewidth = map.tileWidth,
+    tileheight = map.tileHeight,
+    margin = 0,
+    spacing = 0,
+    tiles = [],
+  } = tileset;
+
+  if (image) {
+    let url = images[image] ?? image;
+
+    for (let id = 0; id < tilecount; id++) {
+      let sprite: Sprite = {
+        url,
+        x: margin + (id % columns) * (tilewidth + spacing),
+        y: margin + Math.floor(id / columns) * (tileheight + spacing),
+        w: tilewidth,
+        h: tileheight,
+      };
+      map.sheet[firstgid + id] = sprite;
+    }
+  }
+
+  for (let tile of tiles) {
+    // Tiles in "collection of images" tilesets have their own images
+    if (tile.image) {
+      map.sheet[firstgid + tile.id] = {
+        url: images[tile.image] ?? tile.image,
+        x: 0,
+        y: 0,
+        w: tile.imagewidth ?? tilewidth,
+        h: tile.imageheight ?? tileheight,
+      };
+    }
+
+    if (tile.properties) {
+      map.tileProperties[firstgid + tile.id] = importProperties(tile.properties);
+    }
+  }
+}
+
+/**
+ * Converts a Tiled object into a {@link MapObject}. Tile objects are
+ * positioned by their bottom left corner in Tiled, but by their top left
+ * corner here, like every other rectangle.
+ */
+function importObject(object: TiledObject): MapObject {
+  let w = object.width ?? 0;
+  let h = object.height ?? 0;
+  let gid = object.gid == null ? 0 : object.gid & ~TILED_FLAGS;
+
+  let shape: MapObject["shape"] =
+    gid ? "tile" :
+    object.point ? "point" :
+    object.ellipse ? "ellipse" :
+    object.polygon ? "polygon" :
+    object.polyline ? "polyline" :
+    "rectangle";
+
+  return {
+    id: object.id,
+    name: object.name ?? "",
+    type: object.class ?? object.type ?? "",
+    shape,
+    x: object.x,
+    y: gid ? object.y - h : object.y,
+    w,
+    h,
+    rotation: object.rotation ?? 0,
+    visible: object.visible ?? true,
+    tile: gid ? String(gid) : undefined,
+    points: object.polygon ?? object.polyline,
+    properties: importProperties(object.properties),
+  };
+}
+
+/**
+ * Converts Tiled's list of properties into a record.
+ */
+function importProperties(properties: TiledProperty[] = []): Properties {
+  let record: Properties = {};
+  for (let { name, value } of properties) record[name] = value;
+  return record;
+}
+
+/**
+ * Returns the global tile ids for a tile layer, decoding base64 data if
+ * necessary.
+ */
+function decodeTiles(layer: TiledLayer): number[] {
+  let { data = [], encoding, compression } = layer;
+  if (typeof data !== "string") return data;
+
+  assert(encoding === "base64", `Unknown Tiled encoding: ${encoding}`);
+  assert(!compression, `Compressed Tiled layers are not supported: ${compression}`);
+
+  let binary = atob(data.trim());
+  let gids: number[] = [];
+
+  // Each id is an unsigned little endian 32 bit integer
+  for (let i = 0; i < binary.length; i += 4) {
+    gids.push((
+      binary.charCodeAt(i) |
+      binary.charCodeAt(i + 1) << 8 |
+      binary.charCodeAt(i + 2) << 16 |
+      binary.charCodeAt(i + 3) << 24
+    ) >>> 0);
+  }
+
+  return gids;
+}
@@ -1,5 +1,5 @@
 import { expect, test } from "vitest";
-import { LRUCache, assert, clamp } from "./utils";
+import { LRUCache, TextureCache, assert, clamp, isColor } from "./utils";
 
 test("assert", () => {
   expect(() => assert(true)).not.toThrow();
@@ -17,6 +17,18 @@ test("clamp", () => {
   expect(clamp(0, 10, -5)).toBe(0);
 });
 
+test("isColor", () => {
+  expect(isColor("red")).toBe(true);
+  expect(isColor("RebeccaPurple")).toBe(true);
+  expect(isColor("#f00")).toBe(true);
+  expect(isColor("#ff000080")).toBe(true);
+
+  expect(isColor("score")).toBe(false);
+  expect(isColor("#ff")).toBe(false);
+  expect(isColor("#ggg")).toBe(false);
+  expect(isColor("")).toBe(false);
+});
+
 test("lru cache", () => {
   let a = { name: "a" };
   let b = { name: "b" };
@@ -46,3 +58,88 @@ test("lru cache", () => {
   expect(lru.get(c)).toBe(3);
   expect(lru.get(d)).toBe(4);
 });
+
+test("lru cache eviction", () => {
+  let evicted: string[] = [];
+  let lru = new LRUCache<string, number>(2, key => evicted.push(key));
+
+  lru.set("a", 1);
+  expect(lru.get("a")).toBe(1);
+  expect(lru.size).toBe(1);
+
+  lru.set("b", 2);
+  lru.get("a");
+  lru.set("c", 3);
+  expect(evicted).toEqual(["b"]);
+  expect(lru.has("b")).toBe(false);
+
+  // Deleted entries aren't evicted
+  expect(lru.delete("a")).toBe(true);
+  expect(lru.delete("a")).toBe(false);
+  expect(lru.evict()).toBe("c");
+  expect(evicted).toEqual(["b", "c"]);
+  expect(lru.size).toBe(0);
+  expect(lru.evict()).toBe(undefined);
+});
+
+/**
+ * Creates a canvas with a context that ignores drawing, because jsdom
+ * can't draw to canvases.
+ */
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  let ctx: Partial<CanvasRenderingContext2D> = {
+    drawImage() {},
+    clearRect() {},
+    getImageData: (_x, _y, w, h) => ({ width: w, height: h, data: new Uint8ClampedArray(w * h * 4), colorSpace: "srgb" }),
+    putImageData() {},
+  };
+
+  return { width, height, getContext: () => ctx } as unknown as HTMLCanvasElement;
+}
+
+test("texture cache packing", () => {
+  let cache = new TextureCache(createCanvas);
+  let a = cache.add("a", createCanvas(8, 8));
+  let b = cache.add("b", createCanvas(4, 4));
+  let c = cache.add("c", createCanvas(16, 4));
+  expect(a).toEqual({ x: 0, y: 0, w: 8, h: 8 });
+  expect(b).toEqual({ x: 8, y: 0, w: 4, h: 4 });
+  expect(c).toEqual({ x: 0, y: 8, w: 16, h: 4 });
+  expect(cache.findOrCreate("b", () => createCanvas(1, 1))).toBe(b);
+
+  // The canvas grows in both directions
+  expect(cache.stats()).toEqual({
+    textures: 3,
+    width: 16,
+    height: 16,
+    used: 64 + 16 + 64,
+    occupancy: 144 / 256,
+    evictions: 0,
+  });
+
+  // Removed textures leave spaces that can be reused
+  expect(cache.remove("b")).toBe(true);
+  expect(cache.get("b")).toBe(undefined);
+  expect(cache.add("d", createCanvas(2, 2))).toEqual({ x: 8, y: 0, w: 2, h: 2 });
+  expect(cache.stats().textures).toBe(3);
+});
+
+test("texture cache eviction", () => {
+  let evicted: string[] = [];
+  let cache = new TextureCache(createCanvas, {
+    maxSize: 8,
+    onEvict: key => evicted.push(key),
+  });
+
+  cache.add("a", createCanvas(8, 4));
+  cache.add("b", createCanvas(8, 4));
+  expect(cache.stats().occupancy).toBe(1);
+
+  // The least recently used texture makes room when the canvas is full
+  cache.get("a");
+  expect(cache.add("c", createCanvas(8, 4))).toEqual({ x: 0, y: 4, w: 8, h: 4 });
+  expect(evicted).toEqual(["b"]);
+  expect(cache.stats()).toMatchObject({ textures: 2, evictions: 1 });
+
+  expect(() => cache.add("d", createCanvas(16, 4))).toThrow(/too big/);
+});
@@ -29,6 +29,34 @@ export function getKey(object: any): any {
   return key;
 }
 
+/**
+ * A function that creates a canvas with the given dimensions.
+ */
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+/**
+ * Creates a canvas element with the given dimensions.
+ */
+export function createCanvasElement(width: number, height: number): HTMLCanvasElement {
+  let canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * A function that creates an image. Images are loaded by setting their `src`
+ * and they must call `onload` or `onerror` once they have loaded.
+ */
+export type ImageFactory = () => HTMLImageElement;
+
+/**
+ * Creates an image element.
+ */
+export function createImageElement(): HTMLImageElement {
+  return new Image();
+}
+
 /**
  * Asserts that `cond` is truthy, or throws an error with `msg` as the text.
  */
@@ -51,6 +79,47 @@ export function clamp(min: number, max: number, value: number): number {
   return value;
 }
 
+/**
+ * CSS named colors, so that colors can be checked without a DOM.
+ */
+let _colorNames = new Set([
+  "aliceblue", "antiquewhite", "aqua", "aquamarine", "azure", "beige", "bisque",
+  "black", "blanchedalmond", "blue", "blueviolet", "brown", "burlywood",
+  "cadetblue", "chartreuse", "chocolate", "coral", "cornflowerblue", "cornsilk",
+  "crimson", "cyan", "darkblue", "darkcyan", "darkgoldenrod", "darkgray",
+  "darkgreen", "darkgrey", "darkkhaki", "darkmagenta", "darkolivegreen",
+  "darkorange", "darkorchid", "darkred", "darksalmon", "darkseagreen",
+  "darkslateblue", "darkslategray", "darkslategrey", "darkturquoise",
+  "darkviolet", "deeppink", "deepskyblue", "dimgray", "dimgrey", "dodgerblue",
+  "firebrick", "floralwhite", "forestgreen", "fuchsia", "gainsboro",
+  "ghostwhite", "gold", "goldenrod", "gray", "green", "greenyellow", "grey",
+  "honeydew", "hotpink", "indianred", "indigo", "ivory", "khaki", "lavender",
+  "lavenderblush", "lawngreen", "lemonchiffon", "lightblue", "lightcoral",
+  "lightcyan", "lightgoldenrodyellow", "lightgray", "lightgreen", "lightgrey",
+  "lightpink", "lightsalmon", "lightseagreen", "lightskyblue", "lightslategray",
+  "lightslategrey", "lightsteelblue", "lightyellow", "lime", "limegreen",
+  "linen", "magenta", "maroon", "mediumaquamarine", "mediumblue",
+  "mediumorchid", "mediumpurple", "mediumseagreen", "mediumslateblue",
+  "mediumspringgreen", "mediumturquoise", "mediumvioletred", "midnightblue",
+  "mintcream", "mistyrose", "moccasin", "navajowhite", "navy", "oldlace",
+  "olive", "olivedrab", "orange", "orangered", "orchid", "palegoldenrod",
+  "palegreen", "paleturquoise", "palevioletred", "papayawhip", "peachpuff",
+  "peru", "pink", "plum", "powderblue", "purple", "rebeccapurple", "red",
+  "rosybrown", "royalblue", "saddlebrown", "salmon", "sandybrown", "seagreen",
+  "seashell", "sienna", "silver", "skyblue", "slateblue", "slategray",
+  "slategrey", "snow", "springgreen", "steelblue", "tan", "teal", "thistle",
+  "tomato", "turquoise", "violet", "wheat", "white", "whitesmoke", "yellow",
+  "yellowgreen", "transparent",
+]);
+
+/**
+ * Checks whether a string is a CSS named color or a hex color (e.g. `#f00`
+ * or `#ff000080`).
+ */
+export function isColor(value: string): boolean {
+  return _colorNames.has(value.toLowerCase()) || /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
 interface LRUNode<Key, Value> {
   key: Key;
   value: Value;
@@ -58,45 +127,48 @@ interface LRUNode<Key, Value> {
   prev: LRUNode<Key, Value> | null;
 }
 
+/**
+ * A map that evicts its least recently used entry when it is full. Reading
+ * an entry with {@link get} marks it as recently used.
+ */
 export class LRUCache<Key, Value> {
   private head: LRUNode<Key, Value> | null = null;
   private tail: LRUNode<Key, Value> | null = null;
   private cache = new Map<Key, LRUNode<Key, Value>>();
-  constructor(readonly maxSize: number) {}
+
+  /**
+   * @param maxSize The max number of entries before entries are evicted.
+   * @param onEvict Called with each entry that is evicted (but not with
+   * entries that are removed with {@link delete} or {@link clear}).
+   */
+  constructor(
+    readonly maxSize: number,
+    private onEvict?: (key: Key, value: Value) => void,
+  ) {}
+
+  get size() {
+    return this.cache.size;
+  }
 
   set(key: Key, value: Value) {
     if (this.cache.has(key)) return;
 
-    let node: LRUNode<Key, Value> = { key, value, next: null, prev: null };
-
-    if (this.cache.size === 0) {
-      this.head = this.tail = node;
-      this.cache.set(key, node);
-    }
-
     if (this.cache.size >= this.maxSize) {
-      this.cache.delete(this.tail!.key);
-      this.tail = this.tail!.prev;
-      this.tail!.next = null;
+      this.evict();
     }
 
-    this.head!.prev = node;
-    node.next = this.head;
+    let node: LRUNode<Key, Value> = { key, value, next: this.head, prev: null };
+    if (this.head) this.head.prev = node;
+    else this.tail = node;
     this.head = node;
-    this.cache.set(node.key, node);
+    this.cache.set(key, node);
   }
 
   get(key: Key): Value | undefined {
     let node = this.cache.get(key);
     if (node == null) return undefined;
     if (node === this.head) return node.value;
-    if (node === this.tail) {
-      this.tail = node.prev;
-      this.tail!.next = null;
-    } else {
-      node.prev!.next = node.next;
-      node.next!.prev = node.prev;
-    }
+    this.unlink(node);
 
     this.head!.prev = node;
     node.next = this.head;
@@ -106,10 +178,41 @@ export class LRUCache<Key, Value> {
     return node.value;
   }
 
+  has(key: Key): boolean {
+    return this.cache.has(key);
+  }
+
+  delete(key: Key): boolean {
+    let node = this.cache.get(key);
+    if (node == null) return false;
+    this.unlink(node);
+    this.cache.delete(key);
+    return true;
+  }
+
+  /**
+   * Evicts the least recently used entry and returns its key.
+   */
+  evict(): Key | undefined {
+    let node = this.tail;
+    if (node == null) return undefined;
+    this.delete(node.key);
+    this.onEvict?.(node.key, node.value);
+    return node.key;
+  }
+
   clear() {
     this.head = this.tail = null;
     this.cache.clear();
   }
+
+  private unlink(node: LRUNode<Key, Value>) {
+    if (node.prev) node.prev.next = node.next;
+    else this.head = node.next;
+    if (node.next) node.next.prev = node.prev;
+    else this.tail = node.prev;
+    node.next = node.prev = null;
+  }
 }
 
 /**
@@ -159,67 +262,297 @@ export function lineToPoints(x1: number, y1: number, x2: number, y2: number): Po
 }
 
 /**
- * A very simple batched texture that can hold multiple textures as a more
- * performant alternative to caching and rendering from multiple canvases.
- *
- * Note: texture caches will grow indefinitely and can easily cause
- * memory leaks.
+ * Options for a {@link TextureCache}.
+ */
+export interface TextureCacheOptions {
+  /**
+   * The max width and height of the cache's canvas (defaults to 4096). The
+   * least recently used textures are evicted when the canvas can't grow any
+   * further.
+   */
+  maxSize?: number;
+  /**
+   * Called with the key of each texture that is evicted.
+   */
+  onEvict?: (key: string) => void;
+}
+
+/**
+ * Occupancy stats for a {@link TextureCache}.
+ */
+export interface TextureCacheStats {
+  /**
+   * The number of textures in the cache.
+   */
+  textures: number;
+  /**
+   * The width of the cache's canvas.
+   */
+  width: number;
+  /**
+   * The height of the cache's canvas.
+   */
+  height: number;
+  /**
+   * The number of pixels that are used by textures.
+   */
+  used: number;
+  /**
+   * The fraction of the canvas that is used by textures (0-1).
+   */
+  occupancy: number;
+  /**
+   * The number of textures that have been evicted since the cache was
+   * created or cleared.
+   */
+  evictions: number;
+}
+
+/**
+ * A horizontal row in a {@link TextureCache}. Textures are placed from left
+ * to right along a shelf, and the spaces that removed textures leave behind
+ * are reused for new textures.
+ */
+interface Shelf {
+  y: number;
+  h: number;
+  /**
+   * The x coordinate where the unused part of the shelf starts.
+   */
+  x: number;
+  /**
+   * Spaces inside the used part of the shelf that can be reused.
+   */
+  free: Rectangle[];
+  /**
+   * The number of textures on this shelf.
+   */
+  count: number;
+}
+
+/**
+ * A batched texture that can hold multiple textures as a more performant
+ * alternative to caching and rendering from multiple canvases.
  *
- * To avoid reshaping the underlying texture too often, all the textures
- * are arranged in a horizontal strip that is doubled in width whenever
- * a texture is added that would overflow. The height is expanded to
- * match the height of the tallest texture.
+ * Textures are packed onto shelves, each as tall as the first texture that
+ * was placed on it. Textures go onto the shortest shelf that they fit on
+ * and the canvas grows in both directions (doubling the shorter side) when
+ * nothing fits. Once the canvas reaches its max size, the least recently
+ * used textures are evicted to make room.
  */
 export class TextureCache {
-  readonly canvas = document.createElement("canvas");
-  private ctx = this.canvas.getContext("2d", { willReadFrequently: true })!;
-  private cursor = 0;
-  private rects: Record<string, Rectangle> = {};
+  readonly maxSize: number;
+  private _canvas: HTMLCanvasElement | undefined;
+  private _ctx: CanvasRenderingContext2D | undefined;
+  private shelves: Shelf[] = [];
+  private rects: LRUCache<string, Rectangle>;
+  private used = 0;
+  private evictions = 0;
+
+  constructor(
+    private createCanvas: CanvasFactory = createCanvasElement,
+    options: TextureCacheOptions = {},
+  ) {
+    this.maxSize = options.maxSize ?? 4096;
+    this.rects = new LRUCache(Infinity, (key, rect) => {
+      this.release(rect);
+      this.evictions++;
+      options.onEvict?.(key);
+    });
+  }
+
+  /**
+   * The canvas that holds the textures. It isn't created until it's needed,
+   * so that caches can be created in environments without a DOM.
+   */
+  get canvas(): HTMLCanvasElement {
+    return this._canvas ||= this.createCanvas(1, 1);
+  }
+
+  private get ctx(): CanvasRenderingContext2D {
+    return this._ctx ||= this.canvas.getContext("2d", { willReadFrequently: true })!;
+  }
 
   clear() {
-    this.rects = {};
-    this.canvas.width = this.canvas.width;
+    this.rects.clear();
+    this.shelves = [];
+    this.used = 0;
+    this.evictions = 0;
+    if (this._canvas) this._canvas.width = this._canvas.height = 1;
   }
 
   findOrCreate(key: string, create: () => HTMLCanvasElement) {
-    return this.rects[key] || this.add(key, create());
+    return this.get(key) || this.add(key, create());
   }
 
+  /**
+   * Returns the location of a texture in the cache and marks it as recently
+   * used.
+   */
   get(key: string): Rectangle | undefined {
-    return this.rects[key];
+    return this.rects.get(key);
   }
 
-  add(key: string, canvas: HTMLCanvasElement): Rectangle {
-    let { width, height } = this.canvas;
-    let requiredWidth = this.cursor + canvas.width;
-    let requiredHeight = canvas.height;
+  /**
+   * Replaces the texture for a key. Textures with the same size as the one
+   * that they replace are redrawn in place, otherwise they are added again.
+   */
+  update(key: string, canvas: HTMLCanvasElement): Rectangle {
+    let rect = this.get(key);
 
-    if (requiredWidth > width || requiredHeight > height) {
-      let imageData = this.ctx.getImageData(0, 0, width, height);
+    if (rect == null || rect.w !== canvas.width || rect.h !== canvas.height) {
+      return this.add(key, canvas);
+    }
 
-      while (this.canvas.width < requiredWidth) {
-        this.canvas.width *= 2;
-      }
+    this.ctx.clearRect(rect.x, rect.y, rect.w, rect.h);
+    this.ctx.drawImage(canvas, rect.x, rect.y);
+    return rect;
+  }
 
-      if (this.canvas.height < requiredHeight) {
-        this.canvas.height = requiredHeight;
+  add(key: string, canvas: HTMLCanvasElement): Rectangle {
+    let { width: w, height: h } = canvas;
+    assert(w <= this.maxSize && h <= this.maxSize, `Texture is too big for cache: ${w}x${h}`);
+    this.remove(key);
+
+    let { width, height } = this.canvas;
+    let rect = this.allocate(w, h, width, height);
+
+    while (rect == null) {
+      let growWidth = w > width || (width <= height && h <= height);
+
+      if (growWidth && width < this.maxSize) {
+        width = Math.min(this.maxSize, width * 2);
+      } else if (height < this.maxSize) {
+        height = Math.min(this.maxSize, height * 2);
+      } else if (width < this.maxSize) {
+        width = Math.min(this.maxSize, width * 2);
+      } else {
+        this.rects.evict();
       }
 
+      rect = this.allocate(w, h, width, height);
+    }
+
+    if (width !== this.canvas.width || height !== this.canvas.height) {
+      let imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+      this.canvas.width = width;
+      this.canvas.height = height;
       this.ctx.putImageData(imageData, 0, 0);
     }
 
     this.ctx.imageSmoothingEnabled = false;
-    this.ctx.drawImage(canvas, this.cursor, 0);
+    this.ctx.clearRect(rect.x, rect.y, rect.w, rect.h);
+    this.ctx.drawImage(canvas, rect.x, rect.y);
+    this.rects.set(key, rect);
+    this.used += w * h;
+    return rect;
+  }
+
+  /**
+   * Removes a texture from the cache, so that its space can be reused.
+   */
+  remove(key: string): boolean {
+    let rect = this.rects.get(key);
+    if (rect == null) return false;
+    this.rects.delete(key);
+    this.release(rect);
+    return true;
+  }
 
-    let rect = this.rects[key] = {
-      x: this.cursor,
-      y: 0,
-      w: canvas.width,
-      h: canvas.height,
+  stats(): TextureCacheStats {
+    let { width, height } = this.canvas;
+
+    return {
+      textures: this.rects.size,
+      width,
+      height,
+      used: this.used,
+      occupancy: this.used / (width * height),
+      evictions: this.evictions,
     };
+  }
 
-    this.cursor += canvas.width;
+  /**
+   * Finds a space for a texture in a canvas with the given size, or returns
+   * undefined if there isn't one.
+   */
+  private allocate(w: number, h: number, width: number, height: number): Rectangle | undefined {
+    let best: Shelf | undefined;
+
+    for (let shelf of this.shelves) {
+      let fits = shelf.h >= h && (
+        shelf.x + w <= width ||
+        shelf.free.some(space => space.w >= w)
+      );
+
+      if (fits && (best == null || shelf.h < best.h)) {
+        best = shelf;
+      }
+    }
 
-    return rect;
+    if (best) {
+      best.count++;
+      let space = best.free.find(space => space.w >= w);
+
+      if (space) {
+        let rect = { x: space.x, y: best.y, w, h };
+        space.x += w;
+        space.w -= w;
+        if (space.w === 0) best.free.splice(best.free.indexOf(space), 1);
+        return rect;
+      }
+
+      let rect = { x: best.x, y: best.y, w, h };
+      best.x += w;
+      return rect;
+    }
+
+    let last = this.shelves[this.shelves.length - 1];
+    let y = last ? last.y + last.h : 0;
+
+    if (y + h <= height && w <= width) {
+      this.shelves.push({ y, h, x: w, free: [], count: 1 });
+      return { x: 0, y, w, h };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the space that a texture was using to its shelf.
+   */
+  private release(rect: Rectangle) {
+    let shelf = this.shelves.find(shelf => shelf.y === rect.y)!;
+    this.used -= rect.w * rect.h;
+    shelf.count--;
+
+    if (shelf.count === 0) {
+      shelf.x = 0;
+      shelf.free = [];
+    } else {
+      shelf.free.push({ x: rect.x, y: shelf.y, w: rect.w, h: shelf.h });
+      shelf.free.sort((a, b) => a.x - b.x);
+
+      // Merge neighbouring spaces, and give the last one back to the shelf
+      // if it reaches the unused part.
+      shelf.free = shelf.free.reduce((spaces, space) => {
+        let prev = spaces[spaces.length - 1];
+        if (prev && prev.x + prev.w === space.x) prev.w += space.w;
+        else spaces.push(space);
+        return spaces;
+      }, [] as Rectangle[]);
+
+      let last = shelf.free[shelf.free.length - 1];
+
+      if (last.x + last.w === shelf.x) {
+        shelf.x = last.x;
+        shelf.free.pop();
+      }
+    }
+
+    // Empty shelves at the bottom go back to the unused part of the canvas
+    while (this.shelves.length && this.shelves[this.shelves.length - 1].count === 0) {
+      this.shelves.pop();
+    }
   }
 }